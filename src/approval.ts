@@ -0,0 +1,149 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Tool, CreateMessageRequest } from "@modelcontextprotocol/sdk/types.js";
+import { validateSchema, formatErrors } from "./schema";
+import { chainsCommands } from "./sandbox";
+
+// Client-side gate in front of tool calls the model asks for. Read-only and
+// explicitly non-destructive tools of trusted servers run straight away;
+// everything else needs the user's approval unless an "always allow" rule
+// saved for the project covers it.
+
+// A standing approval. `tool` and `pattern` may use * as a wildcard; without a
+// pattern every call of the tool is allowed, with one only calls whose main
+// argument (see mainArgument) matches it and runs a single command, so that
+// "git *" doesn't also allow "git status; curl ... | sh".
+interface ApprovalRule {
+  tool: string;
+  pattern?: string;
+}
+
+interface ApprovalRequest {
+  tool: Tool;
+  args: Record<string, any>;
+  // What a pattern rule would be matched against, e.g. execute_bash's command
+  mainArgument?: string;
+  // Whether the tool's annotations come from a trusted server
+  trusted: boolean;
+}
+
+type ApprovalResponse =
+  | { decision: "allow_once" }
+  | { decision: "allow_always"; pattern?: string }
+  | { decision: "deny"; reason?: string };
+
+// Asks the user; the LLM calls it for every call that needs approval. `signal`
+// aborts when the turn is cancelled while the question is open.
+type ApprovalHandler = (request: ApprovalRequest, signal?: AbortSignal) => Promise<ApprovalResponse>;
+
+// A server asking to use Claude (MCP sampling), usually from inside a tool call
+interface SamplingApprovalRequest {
+  // Name of the server that asked, as in mcpServers
+  server: string;
+  // The tool call that was running when the request came in, if any
+  tool?: string;
+  params: CreateMessageRequest["params"];
+  // What the answer is limited to: the requested maxTokens, capped by the client
+  maxTokens: number;
+}
+
+// allow_always allows that server's requests for the rest of the session
+type SamplingApprovalHandler = (request: SamplingApprovalRequest, signal?: AbortSignal) => Promise<ApprovalResponse>;
+
+const APPROVALS_FILE = ".mcp-approvals.json";
+
+const APPROVALS_SCHEMA = {
+  type: "object",
+  properties: {
+    rules: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          tool: { type: "string", minLength: 1 },
+          pattern: { type: "string", minLength: 1 },
+        },
+        required: ["tool"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["rules"],
+};
+
+class ApprovalPolicy {
+  private rules: ApprovalRule[] = [];
+
+  // Rules live in the project directory, next to .env.local
+  constructor(private file: string = path.join(process.cwd(), APPROVALS_FILE)) {
+    if (fs.existsSync(file)) {
+      const saved = JSON.parse(fs.readFileSync(file, "utf8"));
+      const validation = validateSchema(APPROVALS_SCHEMA, saved);
+      if (!validation.valid) {
+        throw new Error(`Invalid approval rules in ${file}:\n${formatErrors(validation.errors)}`);
+      }
+      this.rules = saved.rules;
+    }
+  }
+
+  // Per the MCP spec a tool without annotations may be destructive, and the
+  // annotations of a server that isn't trusted mean nothing
+  needsApproval(tool: Tool, args: Record<string, any>, trusted: boolean): boolean {
+    const annotations = trusted ? tool.annotations ?? {} : {};
+    if (annotations.readOnlyHint === true || annotations.destructiveHint === false) {
+      return false;
+    }
+    const mainArgument = this.mainArgument(tool, args);
+    return !this.rules.some((rule) =>
+      matchesGlob(rule.tool, tool.name) &&
+      (rule.pattern === undefined || (mainArgument !== undefined && !chainsCommands(mainArgument) && matchesGlob(rule.pattern, mainArgument)))
+    );
+  }
+
+  request(tool: Tool, args: Record<string, any>, trusted: boolean): ApprovalRequest {
+    return { tool, args, mainArgument: this.mainArgument(tool, args), trusted };
+  }
+
+  allowAlways(rule: ApprovalRule) {
+    this.rules.push(rule);
+    this.save();
+  }
+
+  list(): ApprovalRule[] {
+    return [...this.rules];
+  }
+
+  clear() {
+    this.rules = [];
+    this.save();
+  }
+
+  // The first required string argument, or failing that the first string argument
+  private mainArgument(tool: Tool, args: Record<string, any>): string | undefined {
+    const required = (tool.inputSchema.required ?? []) as string[];
+    const name = [...required, ...Object.keys(args)].find((key) => typeof args[key] === "string");
+    return name !== undefined ? args[name] : undefined;
+  }
+
+  private save() {
+    fs.writeFileSync(this.file, JSON.stringify({ rules: this.rules }, null, 2) + "\n");
+  }
+}
+
+// Whole-string match where * stands for any run of characters
+function matchesGlob(pattern: string, value: string): boolean {
+  const source = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`, "s").test(value);
+}
+
+export {
+  ApprovalPolicy,
+  matchesGlob,
+  ApprovalRule,
+  ApprovalRequest,
+  ApprovalResponse,
+  ApprovalHandler,
+  SamplingApprovalRequest,
+  SamplingApprovalHandler,
+  APPROVALS_FILE,
+};
@@ -0,0 +1,212 @@
+import * as fs from "fs";
+import * as path from "path";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+// Append-only JSONL record of every tool call the server handles. Secrets are
+// redacted before anything is written, so the file can be shared for review.
+
+type AuditOutcome = "ok" | "error" | "cancelled";
+
+interface AuditEntry {
+  timestamp: string;
+  // Mcp-Session-Id in HTTP mode, "stdio" otherwise
+  session: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  durationMs: number;
+  outcome: AuditOutcome;
+  // Text content of the result, truncated
+  result: string;
+}
+
+interface AuditConfig {
+  enabled?: boolean;
+  file?: string;
+  // How much of each result is kept
+  maxResultChars?: number;
+}
+
+interface AuditFilter {
+  tool?: string;
+  since?: Date;
+  until?: Date;
+  failuresOnly?: boolean;
+}
+
+const DEFAULT_AUDIT_FILE = "mcp-audit.jsonl";
+const DEFAULT_MAX_RESULT_CHARS = 2000;
+const REDACTED = "[REDACTED]";
+
+// Environment variables whose values are treated as secrets
+const SECRET_ENV_NAME = /KEY|TOKEN|SECRET|PASSWORD|PASSWD|CREDENTIAL/i;
+
+// Well-known credential formats, redacted wherever they appear
+const SECRET_PATTERNS: RegExp[] = [
+  /\bsk-[A-Za-z0-9_-]{20,}/g,                  // Anthropic / OpenAI keys
+  /\bgh[pousr]_[A-Za-z0-9]{30,}/g,             // GitHub tokens
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,           // Slack tokens
+  /\bAKIA[0-9A-Z]{16}\b/g,                     // AWS access key IDs
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,                // Google API keys
+  /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g, // JWTs
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+];
+
+// key=value / "key": "value" / Authorization: Bearer ... where the key looks secret
+const SECRET_ASSIGNMENT = /((?:api[_-]?key|token|secret|password|passwd|authorization)["']?\s*[:=]\s*["']?(?:Bearer\s+)?)([^\s"',;&]{6,})/gi;
+
+// Argument keys whose string values are secrets wherever they appear, e.g.
+// request headers
+const SECRET_KEY = /authorization|cookie|api[-_]?key|token|secret|password|passwd|credential/i;
+
+// What a browser tool types into an element; secret when its selector names
+// a password or key field, e.g. {selector: "#password", text: "..."}, or when
+// the tool found the element to be one (see ToolContext.markSecretTarget)
+const TYPED_KEYS = new Set(["text", "value"]);
+
+class Redactor {
+  private secrets: string[];
+
+  // `secrets` are exact values to remove, e.g. the configured credentials
+  constructor(secrets: (string | undefined)[] = []) {
+    const fromEnv = Object.entries(process.env)
+      .filter(([name, value]) => SECRET_ENV_NAME.test(name) && value)
+      .map(([, value]) => value!);
+    // Longest first so a secret containing another is removed whole; very
+    // short values would blank out ordinary words
+    this.secrets = Array.from(new Set([...secrets, ...fromEnv]))
+      .filter((secret): secret is string => !!secret && secret.length >= 8)
+      .sort((a, b) => b.length - a.length);
+  }
+
+  // `secretTargets` are selectors and element refs known to be secret fields
+  redact<T>(value: T, secretTargets: ReadonlySet<string> = new Set()): T {
+    if (typeof value === "string") {
+      return this.redactText(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item, secretTargets)) as T;
+    }
+    if (value && typeof value === "object") {
+      const { selector, ref } = value as Record<string, unknown>;
+      const secretTarget = (typeof selector === "string" && (SECRET_KEY.test(selector) || secretTargets.has(selector)))
+        || (typeof ref === "string" && secretTargets.has(ref));
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => {
+          // A form value may be a number, e.g. a PIN
+          const typed = secretTarget && TYPED_KEYS.has(key) && (typeof item === "string" || typeof item === "number");
+          return [key, typed || (SECRET_KEY.test(key) && typeof item === "string") ? REDACTED : this.redact(item, secretTargets)];
+        })
+      ) as T;
+    }
+    return value;
+  }
+
+  private redactText(text: string): string {
+    let redacted = text;
+    for (const secret of this.secrets) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+    for (const pattern of SECRET_PATTERNS) {
+      redacted = redacted.replace(pattern, REDACTED);
+    }
+    return redacted.replace(SECRET_ASSIGNMENT, `$1${REDACTED}`);
+  }
+}
+
+class AuditLog {
+  readonly file: string;
+  private maxResultChars: number;
+
+  constructor(config: AuditConfig, private redactor: Redactor) {
+    this.file = path.resolve(config.file || DEFAULT_AUDIT_FILE);
+    this.maxResultChars = config.maxResultChars ?? DEFAULT_MAX_RESULT_CHARS;
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+  }
+
+  record(call: { session?: string; tool: string; arguments: Record<string, unknown>; secretTargets?: ReadonlySet<string>; startedAt: number; result: CallToolResult; cancelled: boolean }) {
+    const entry: AuditEntry = {
+      timestamp: new Date(call.startedAt).toISOString(),
+      session: call.session ?? "stdio",
+      tool: call.tool,
+      arguments: this.redactor.redact(call.arguments, call.secretTargets),
+      durationMs: Date.now() - call.startedAt,
+      outcome: call.cancelled ? "cancelled" : call.result.isError ? "error" : "ok",
+      result: this.redactor.redact(truncate(resultText(call.result), this.maxResultChars)),
+    };
+    // One write per line keeps entries whole even with several servers appending
+    fs.appendFileSync(this.file, JSON.stringify(entry) + "\n");
+  }
+}
+
+function resultText(result: CallToolResult): string {
+  return result.content
+    .map((item) => item.type === "text" ? item.text : `[${item.type}${"mimeType" in item ? ` ${item.mimeType}` : ""}]`)
+    .join("\n");
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}… [${text.length - maxChars} more characters]` : text;
+}
+
+// Entries matching the filter, oldest first. Lines that aren't valid JSON
+// (e.g. a write cut short by a crash) are skipped.
+function readAuditLog(file: string, filter: AuditFilter = {}): AuditEntry[] {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Audit log not found: ${path.resolve(file)}`);
+  }
+  const entries: AuditEntry[] = [];
+  for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    const time = new Date(entry.timestamp);
+    if (filter.tool && entry.tool !== filter.tool) continue;
+    if (filter.since && time < filter.since) continue;
+    if (filter.until && time > filter.until) continue;
+    if (filter.failuresOnly && entry.outcome === "ok") continue;
+    entries.push(entry);
+  }
+  return entries;
+}
+
+// An ISO date/time, or a duration back from now such as 30m, 12h or 7d
+function parseTime(value: string): Date {
+  const relative = value.match(/^(\d+)([smhd])$/);
+  if (relative) {
+    const unitMs = { s: 1000, m: 60000, h: 3600000, d: 86400000 }[relative[2] as "s" | "m" | "h" | "d"];
+    return new Date(Date.now() - Number(relative[1]) * unitMs);
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid time: ${value} (use an ISO date such as 2024-05-01T12:00 or a duration such as 2h)`);
+  }
+  return date;
+}
+
+// One line per entry for the audit command
+function formatAuditEntry(entry: AuditEntry): string {
+  const icon = entry.outcome === "ok" ? "✅" : entry.outcome === "cancelled" ? "⏹️ " : "❌";
+  const args = truncate(JSON.stringify(entry.arguments), 120);
+  const result = truncate(entry.result.replace(/\s+/g, " "), 120);
+  return `${entry.timestamp} ${icon} ${entry.tool} (${entry.durationMs} ms, session ${entry.session.slice(0, 8)}) ${args}\n    ${result}`;
+}
+
+export {
+  AuditLog,
+  AuditEntry,
+  AuditConfig,
+  AuditFilter,
+  AuditOutcome,
+  Redactor,
+  SECRET_KEY,
+  DEFAULT_AUDIT_FILE,
+  readAuditLog,
+  parseTime,
+  formatAuditEntry,
+};
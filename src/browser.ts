@@ -0,0 +1,329 @@
+import { chromium, Browser, BrowserContext, Page } from "playwright-core";
+import Browserbase from "@browserbasehq/sdk";
+import * as fs from "fs";
+import { Credentials } from "./config";
+
+// Where the browser driven by the browser_* tools comes from
+interface BrowserProvider {
+  name: string;
+  // Start or connect to a browser
+  launch(): Promise<Browser>;
+  // Release anything held outside the browser process, e.g. a remote session
+  release(): Promise<void>;
+  // Why the browser can't be started (e.g. a missing API key), or null
+  unavailableReason(): string | null;
+}
+
+interface BrowserProviderConfig {
+  type?: "browserbase" | "local";
+  // Local Chromium only
+  executablePath?: string;
+  headless?: boolean;
+  args?: string[];
+}
+
+// Remote Chromium from Browserbase, connected over CDP
+class BrowserbaseProvider implements BrowserProvider {
+  name = "browserbase";
+  private browserbase: Browserbase;
+  private sessionId: string | null = null;
+
+  constructor(private credentials: Credentials, private log: (...args: any[]) => void) {
+    this.browserbase = new Browserbase({
+      apiKey: credentials.browserbaseApiKey || ""
+    });
+  }
+
+  unavailableReason(): string | null {
+    if (!this.credentials.browserbaseApiKey) {
+      return "no Browserbase API key (BROWSERBASE_API_KEY) is configured";
+    }
+    if (!this.credentials.browserbaseProjectId) {
+      return "no Browserbase project ID (BROWSERBASE_PROJECT_ID) is configured";
+    }
+    return null;
+  }
+
+  async launch(): Promise<Browser> {
+    const unavailable = this.unavailableReason();
+    if (unavailable) {
+      throw new Error(`Cannot start a Browserbase session: ${unavailable}`);
+    }
+
+    this.log("🌐 Creating new Browserbase session...");
+    const session = await this.browserbase.sessions.create({
+      projectId: this.credentials.browserbaseProjectId!,
+    });
+    this.sessionId = session.id;
+
+    this.log("🔗 Connecting to browser session...");
+    return chromium.connectOverCDP(session.connectUrl);
+  }
+
+  // Browserbase bills until the session is released or times out
+  async release(): Promise<void> {
+    if (!this.sessionId) {
+      return;
+    }
+    const sessionId = this.sessionId;
+    this.sessionId = null;
+    await this.browserbase.sessions.update(sessionId, {
+      projectId: this.credentials.browserbaseProjectId!,
+      status: "REQUEST_RELEASE",
+    });
+    this.log(`🧹 Released Browserbase session ${sessionId}`);
+  }
+}
+
+// Chromium launched on this machine through playwright-core. playwright-core
+// doesn't download browsers, so point executablePath (browser.executablePath in
+// the config file, or MCP_BROWSER_EXECUTABLE) at an installed Chrome/Chromium
+// if Playwright's default lookup fails.
+class LocalChromiumProvider implements BrowserProvider {
+  name = "local";
+
+  constructor(private config: BrowserProviderConfig, private log: (...args: any[]) => void) {}
+
+  async launch(): Promise<Browser> {
+    this.log("🌐 Launching local Chromium...");
+    return chromium.launch({
+      executablePath: this.config.executablePath,
+      headless: this.config.headless ?? true,
+      args: this.config.args,
+    });
+  }
+
+  async release(): Promise<void> {}
+
+  // Without an explicit path there is nothing to check until Playwright looks
+  unavailableReason(): string | null {
+    if (this.config.executablePath && !fs.existsSync(this.config.executablePath)) {
+      return `browser executable not found: ${this.config.executablePath}`;
+    }
+    return null;
+  }
+}
+
+// The configured type wins; otherwise Browserbase when its API key is set and
+// a local browser when it isn't
+function createBrowserProvider(config: BrowserProviderConfig, credentials: Credentials, log: (...args: any[]) => void): BrowserProvider {
+  const type = config.type || (credentials.browserbaseApiKey ? "browserbase" : "local");
+
+  switch (type) {
+    case "browserbase":
+      return new BrowserbaseProvider(credentials, log);
+    case "local":
+      return new LocalChromiumProvider(config, log);
+    default:
+      throw new Error(`Unknown browser provider: ${type} (expected "browserbase" or "local")`);
+  }
+}
+
+interface TabInfo {
+  id: string;
+  url: string;
+  title: string;
+  active: boolean;
+}
+
+// Lazily started browser shared by every tool call and client session. Tabs
+// get stable IDs ("tab-1", "tab-2", ...) that are never reused within a
+// session; tools act on the active tab.
+class BrowserSession {
+  private browser: Browser | null = null;
+  private context: BrowserContext | null = null;
+  private tabs = new Map<string, Page>();
+  private activeTabId: string | null = null;
+  private nextTabId = 1;
+  private launching: Promise<BrowserContext> | null = null;
+
+  constructor(private provider: BrowserProvider, private log: (...args: any[]) => void) {}
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  // Why the browser_* tools can't work with this setup, or null
+  unavailableReason(): string | null {
+    return this.provider.unavailableReason();
+  }
+
+  get isOpen(): boolean {
+    return this.browser !== null;
+  }
+
+  // The active tab, starting the browser (and a first tab) if needed
+  async getPage(): Promise<Page> {
+    const context = await this.ensureContext();
+    if (!this.activeTabId) {
+      const page = context.pages()[0] ?? await context.newPage();
+      this.activeTabId = this.tabIdOf(page) ?? this.addTab(page);
+    }
+    return this.tabs.get(this.activeTabId)!;
+  }
+
+  async newTab(url?: string): Promise<TabInfo> {
+    const context = await this.ensureContext();
+    const page = await context.newPage();
+    const id = this.tabIdOf(page) ?? this.addTab(page);
+    this.activeTabId = id;
+    if (url) {
+      await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
+    }
+    return this.describeTab(id);
+  }
+
+  async listTabs(): Promise<TabInfo[]> {
+    return Promise.all(Array.from(this.tabs.keys()).map((id) => this.describeTab(id)));
+  }
+
+  async switchTab(id: string): Promise<TabInfo> {
+    const page = this.findTab(id);
+    await page.bringToFront();
+    this.activeTabId = id;
+    return this.describeTab(id);
+  }
+
+  // Close a tab; the most recently opened remaining tab becomes active
+  async closeTab(id: string): Promise<TabInfo | null> {
+    const page = this.findTab(id);
+    await page.close();
+    this.removeTab(id);
+    return this.activeTabId ? this.describeTab(this.activeTabId) : null;
+  }
+
+  async describeTab(id: string): Promise<TabInfo> {
+    const page = this.findTab(id);
+    return {
+      id,
+      url: page.url(),
+      title: await page.title().catch(() => ""),
+      active: id === this.activeTabId,
+    };
+  }
+
+  async describeActiveTab(): Promise<TabInfo> {
+    await this.getPage();
+    return this.describeTab(this.activeTabId!);
+  }
+
+  // Close every tab and the browser, and release the provider's session. The
+  // session is released even when the browser is already gone, e.g. after it
+  // disconnected.
+  async close() {
+    const browser = this.browser;
+    this.reset();
+    try {
+      await browser?.close();
+    } finally {
+      await this.provider.release();
+      if (browser) {
+        this.log(`🛑 Browser session closed (${this.provider.name})`);
+      }
+    }
+  }
+
+  private async ensureContext(): Promise<BrowserContext> {
+    if (this.context) {
+      return this.context;
+    }
+    // Concurrent tool calls share one launch
+    if (!this.launching) {
+      this.launching = this.launch().finally(() => {
+        this.launching = null;
+      });
+    }
+    return this.launching;
+  }
+
+  private async launch(): Promise<BrowserContext> {
+    let browser: Browser;
+    let context: BrowserContext;
+    try {
+      browser = await this.provider.launch();
+      const contexts = browser.contexts();
+      context = contexts.length > 0 ? contexts[0] : await browser.newContext();
+    } catch (error) {
+      // A session may have been created before connecting to it failed
+      await browser?.close().catch(() => {});
+      await this.provider.release().catch((releaseError) => this.log(`⚠️  Failed to release the browser session: ${releaseError}`));
+      throw error;
+    }
+
+    // A dropped Browserbase connection leaves the remote session billed until
+    // it is released, and the next launch would forget it
+    browser.on("disconnected", () => {
+      if (this.browser === browser) {
+        this.log("⚠️  Browser disconnected");
+        this.provider.release().catch((error) => this.log(`⚠️  Failed to release the browser session: ${error}`));
+        this.reset();
+      }
+    });
+    // Pages the site opens itself (target=_blank, window.open) become tabs too
+    context.on("page", (page) => {
+      if (!this.tabIdOf(page)) {
+        this.addTab(page);
+      }
+    });
+    for (const page of context.pages()) {
+      this.addTab(page);
+    }
+
+    this.browser = browser;
+    this.context = context;
+    this.log(`✅ Browser session ready (${this.provider.name})`);
+    return context;
+  }
+
+  private addTab(page: Page): string {
+    const id = `tab-${this.nextTabId++}`;
+    this.tabs.set(id, page);
+    page.on("close", () => this.removeTab(id));
+    return id;
+  }
+
+  private removeTab(id: string) {
+    if (!this.tabs.delete(id)) {
+      return;
+    }
+    if (this.activeTabId === id) {
+      const remaining = Array.from(this.tabs.keys());
+      this.activeTabId = remaining.length > 0 ? remaining[remaining.length - 1] : null;
+    }
+  }
+
+  private tabIdOf(page: Page): string | undefined {
+    for (const [id, tab] of this.tabs) {
+      if (tab === page) {
+        return id;
+      }
+    }
+    return undefined;
+  }
+
+  private findTab(id: string): Page {
+    const page = this.tabs.get(id);
+    if (!page) {
+      const known = Array.from(this.tabs.keys());
+      throw new Error(`Unknown tab: ${id}${known.length > 0 ? ` (open tabs: ${known.join(", ")})` : " (no tabs open)"}`);
+    }
+    return page;
+  }
+
+  private reset() {
+    this.browser = null;
+    this.context = null;
+    this.tabs.clear();
+    this.activeTabId = null;
+  }
+}
+
+export {
+  BrowserProvider,
+  BrowserProviderConfig,
+  BrowserbaseProvider,
+  LocalChromiumProvider,
+  BrowserSession,
+  TabInfo,
+  createBrowserProvider,
+};
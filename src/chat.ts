@@ -1,6 +1,10 @@
 import dotenv from 'dotenv';
-import { LLM } from "./llm";
+import { LLM, LLMOptions, TurnCancelled, ElicitationRequest } from "./llm";
 import * as readline from 'readline';
+import { LoggingLevel, LoggingLevelSchema, LoggingMessageNotification, ElicitResult } from "@modelcontextprotocol/sdk/types.js";
+import { ConnectionEvent } from "./client";
+import { ApprovalRequest, ApprovalResponse, SamplingApprovalRequest } from "./approval";
+import { Lifecycle } from "./lifecycle";
 
 dotenv.config({ path: '.env.local' });
 
@@ -42,19 +46,57 @@ class Spinner {
   }
 }
 
+const LOG_LEVELS = LoggingLevelSchema.options;
+// How much of each sampling message the approval prompt shows
+const SAMPLING_PREVIEW_LENGTH = 300;
+
 class ChatCLI {
   private rl: readline.Interface;
   private llm: LLM;
   private spinner: Spinner;
+  // Quiet hides the LLM/client debug output and shows a spinner instead
+  private quiet = false;
+  // The running turn, aborted by Ctrl-C
+  private turn: AbortController | null = null;
+  // Set by a Ctrl-C with nothing left to cancel; the next one exits
+  private exitArmed = false;
+  // While set, what the user types isn't echoed (see askSecret)
+  private muted = false;
+  private lifecycle = new Lifecycle();
 
-  constructor() {
+  constructor(options: LLMOptions = {}) {
     this.rl = readline.createInterface({
       input: process.stdin,
       output: process.stdout
     });
     
-    this.llm = new LLM(process.env.ANTHROPIC_API_KEY!);
+    this.llm = new LLM(process.env.ANTHROPIC_API_KEY!, {
+      ...options,
+      logSink: (message) => this.showServerLog(message),
+      onServerStateChange: (server, event) => this.showServerState(server, event),
+      approve: (request, signal) => this.askApproval(request, signal),
+      approveSampling: (request, signal) => this.askSamplingApproval(request, signal),
+      elicit: (request, signal) => this.askElicitation(request, signal),
+    });
     this.spinner = new Spinner();
+
+    // readline echoes keystrokes through _writeToOutput; muting it there hides
+    // secrets while keeping line editing working
+    const rl = this.rl as any;
+    const writeToOutput = rl._writeToOutput.bind(rl);
+    rl._writeToOutput = (text: string) => {
+      if (!this.muted || text.endsWith('\n')) {
+        writeToOutput(this.muted ? '\n' : text);
+      }
+    };
+
+    this.lifecycle.onShutdown("stop spinner", () => this.spinner.stop());
+    this.lifecycle.onShutdown("close MCP connection", () => this.llm.shutdown());
+    this.lifecycle.onShutdown("close prompt", () => this.rl.close());
+    // Ctrl-C arrives on readline in a terminal and as a signal otherwise
+    this.rl.on('SIGINT', () => this.interrupt());
+    process.on('SIGINT', () => this.interrupt());
+    this.lifecycle.handleProcessEvents(["SIGTERM", "SIGHUP"]);
   }
 
   async start() {
@@ -70,6 +112,13 @@ class ChatCLI {
       console.log("Try these commands:");
       console.log("• 'Hello Alice' - Greeting tool");
       console.log("• 'What time is it?' - Time tool");  
+      console.log("• '/prompts' - List prompt templates");
+      console.log("• '/prompt <name> key=value ...' - Run a prompt template");
+      console.log("• '/verbose' or '/quiet' - Show or hide processing details");
+      console.log("• '/loglevel <level>' - Server log messages to show (debug ... emergency)");
+      console.log("• '/approvals' or '/approvals clear' - Show or forget 'always allow' rules");
+      console.log("• '/servers' - Show the MCP servers and their tools");
+      console.log("• Ctrl-C - Cancel the current answer; press again to exit");
       console.log("• 'quit' or 'exit' - Exit chat");
       console.log("=".repeat(60) + "\n");
       
@@ -81,24 +130,208 @@ class ChatCLI {
     }
   }
 
-  private async isQuietMode(): Promise<boolean> {
-    try {
-      // First ensure the LLM syncs its logging mode
-      await this.llm.syncLoggingModePublic();
-      // Check current logging mode from LLM
-      const isVerbose = this.llm.getVerboseLogging();
-      const isQuiet = !isVerbose;
-      console.log(`🔍 Debug: isVerbose=${isVerbose}, isQuiet=${isQuiet}`); // Temporary debug
-      return isQuiet;
-    } catch (error) {
-      console.log(`🔍 Debug: Error checking quiet mode, defaulting to verbose`); // Temporary debug
-      return false; // Default to verbose if we can't determine
+  // Server log messages; in quiet mode only warnings and worse get through
+  private showServerLog({ level, logger, data }: LoggingMessageNotification["params"]) {
+    if (this.quiet && LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf("warning")) {
+      return;
+    }
+    const text = typeof data === 'string' ? data : JSON.stringify(data);
+    // Clear the spinner line first so the message isn't mixed into it
+    process.stdout.write('\r\x1b[K');
+    console.log(`📡 [${logger ?? 'server'}:${level}] ${text}`);
+  }
+
+  // Lost and restored server connections. The first connection is reported by
+  // start(), so only events of a reconnection (which carry `attempt`) show here.
+  private showServerState(server: string, event: ConnectionEvent) {
+    if (event.attempt === undefined && event.state !== 'reconnecting') {
+      return;
+    }
+    let message: string;
+    if (event.state === 'reconnecting') {
+      message = event.attempt === undefined
+        ? `🔌 Lost MCP server ${server}: ${event.reason}`
+        : `🔄 Reconnecting to ${server} in ${Math.round(event.retryInMs! / 1000)}s (attempt ${event.attempt})`;
+      // Quiet mode only needs to know something is going on
+      if (this.quiet && event.attempt !== undefined) {
+        return;
+      }
+    } else if (event.state === 'connected') {
+      message = `✅ Reconnected to ${server} (${event.tools?.length ?? 0} tools)`;
+    } else if (event.state === 'failed') {
+      message = `❌ Gave up on MCP server ${server} after ${event.attempt} attempts: ${event.reason}. Its tools are no longer available.`;
+    } else {
+      return;
+    }
+    // Clear the spinner line first so the message isn't mixed into it
+    process.stdout.write('\r\x1b[K');
+    console.log(message);
+  }
+
+  // Shown for tool calls that may change things (destructive or unannotated tools)
+  // A cancelled turn answers any open question with a denial.
+  private async askApproval({ tool, args, mainArgument, trusted }: ApprovalRequest, signal?: AbortSignal): Promise<ApprovalResponse> {
+    const spinning = this.quiet;
+    this.spinner.stop();
+
+    const hints = (trusted ? [
+      tool.annotations?.destructiveHint === true ? "may modify or delete things" : "not marked read-only",
+      tool.annotations?.openWorldHint ? "reaches outside this machine" : null,
+    ] : ["from a server that isn't trusted"]).filter(Boolean).join(", ");
+    console.log(`\n⚠️  Claude wants to run ${tool.name} (${hints}) with:`);
+    console.log(JSON.stringify(args, null, 2));
+    console.log(`  [y] allow once   [a] always allow ${tool.name}` +
+      (mainArgument !== undefined ? "   [p] always allow a pattern" : "") + "   [n] deny");
+
+    let response: ApprovalResponse | null = null;
+    while (!response) {
+      const answer = (await this.ask("Allow? ", signal)).trim().toLowerCase();
+      if (signal?.aborted) {
+        return { decision: 'deny', reason: 'the user cancelled the request' };
+      }
+      if (answer === 'y' || answer === 'yes') {
+        response = { decision: 'allow_once' };
+      } else if (answer === 'a') {
+        response = { decision: 'allow_always' };
+      } else if (answer === 'p' && mainArgument !== undefined) {
+        // Suggest the first word, e.g. "git *" for a git command
+        const suggestion = `${mainArgument.split(/\s+/)[0]} *`;
+        const pattern = (await this.ask(`Pattern, * matches anything [${suggestion}]: `, signal)).trim() || suggestion;
+        response = { decision: 'allow_always', pattern };
+      } else if (answer === 'n' || answer === 'no' || answer === '') {
+        const reason = (await this.ask("Reason for Claude (optional): ", signal)).trim();
+        response = { decision: 'deny', ...(reason ? { reason } : {}) };
+      }
+    }
+
+    if (spinning) {
+      this.spinner.start('Thinking');
+    }
+    return response;
+  }
+
+  // Shown when a server tool wants to use Claude itself (MCP sampling)
+  private async askSamplingApproval({ server, tool, params, maxTokens }: SamplingApprovalRequest, signal?: AbortSignal): Promise<ApprovalResponse> {
+    const spinning = this.quiet;
+    this.spinner.stop();
+
+    const preview = (text: string) => text.length > SAMPLING_PREVIEW_LENGTH
+      ? `${text.slice(0, SAMPLING_PREVIEW_LENGTH).replace(/\s+/g, ' ')}… [${text.length} characters]`
+      : text.replace(/\s+/g, ' ');
+    console.log(`\n🧠 ${server} wants to use Claude${tool ? ` for ${tool}` : ''} (up to ${maxTokens} tokens):`);
+    if (params.systemPrompt) {
+      console.log(`  system: ${preview(params.systemPrompt)}`);
+    }
+    for (const message of params.messages) {
+      console.log(`  ${message.role}: ${message.content.type === 'text' ? preview(message.content.text) : `[${message.content.type}]`}`);
+    }
+    console.log(`  [y] allow once   [a] allow ${server} for this session   [n] deny`);
+
+    let response: ApprovalResponse | null = null;
+    while (!response) {
+      const answer = (await this.ask("Allow? ", signal)).trim().toLowerCase();
+      if (signal?.aborted) {
+        return { decision: 'deny', reason: 'the request was cancelled' };
+      }
+      if (answer === 'y' || answer === 'yes') {
+        response = { decision: 'allow_once' };
+      } else if (answer === 'a') {
+        response = { decision: 'allow_always' };
+      } else if (answer === 'n' || answer === 'no' || answer === '') {
+        response = { decision: 'deny' };
+      }
+    }
+
+    if (spinning) {
+      this.spinner.start('Thinking');
     }
+    return response;
+  }
+
+  // Shown when a server tool asks the user for input (MCP elicitation). Each
+  // field of the requested schema gets its own prompt.
+  private async askElicitation({ tool, params }: ElicitationRequest, signal?: AbortSignal): Promise<ElicitResult> {
+    const spinning = this.quiet;
+    this.spinner.stop();
+
+    console.log(`\n🙋 ${tool ?? 'The server'} asks:`);
+    console.log(params.message.split('\n').map((line) => `  ${line}`).join('\n'));
+    console.log("  [y] answer   [n] decline   [c] cancel");
+
+    let result: ElicitResult | null = null;
+    while (!result) {
+      const answer = (await this.ask("Answer? ", signal)).trim().toLowerCase();
+      if (signal?.aborted) {
+        return { action: 'cancel' };
+      }
+      if (answer === 'y' || answer === 'yes') {
+        const content = await this.askFields(params.requestedSchema, signal);
+        result = content ? { action: 'accept', content } : { action: 'cancel' };
+      } else if (answer === 'n' || answer === 'no') {
+        result = { action: 'reject' };
+      } else if (answer === 'c' || answer === '') {
+        result = { action: 'cancel' };
+      }
+    }
+
+    if (spinning) {
+      this.spinner.start('Thinking');
+    }
+    return result;
+  }
+
+  // Prompt for each property until it's valid. Empty answers take the default
+  // or leave optional fields out. Returns null if the turn is cancelled.
+  private async askFields(schema: ElicitationRequest["params"]["requestedSchema"], signal?: AbortSignal): Promise<Record<string, string | number | boolean> | null> {
+    const required = schema.required ?? [];
+    const content: Record<string, string | number | boolean> = {};
+
+    for (const [name, field] of Object.entries(schema.properties) as [string, any][]) {
+      const label = `${field.title ?? name}${required.includes(name) ? '' : ' (optional)'}`;
+      if (field.description) {
+        console.log(`  ${field.description}`);
+      }
+      if (field.enum) {
+        field.enum.forEach((value: string, index: number) => console.log(`  ${index + 1}. ${field.enumNames?.[index] ?? value}`));
+      }
+
+      for (;;) {
+        const hint = field.type === 'boolean' ? ' [y/n]' : '';
+        const fallback = field.default !== undefined ? ` [${field.type === 'boolean' ? (field.default ? 'y' : 'n') : field.default}]` : '';
+        const question = `${label}${hint}${fallback}: `;
+        const answer = (await (isSecretField(name, field) ? this.askSecret(question, signal) : this.ask(question, signal))).trim();
+        if (signal?.aborted) {
+          return null;
+        }
+
+        if (answer === '') {
+          if (field.default !== undefined) {
+            content[name] = field.default;
+            break;
+          }
+          if (!required.includes(name)) {
+            break;
+          }
+          console.log(`  ${label} is required`);
+          continue;
+        }
+
+        const value = parseField(field, answer);
+        if (typeof value === 'object') {
+          console.log(`  ${value.error}`);
+          continue;
+        }
+        content[name] = value;
+        break;
+      }
+    }
+    return content;
   }
 
   private chatLoop() {
     this.rl.question("You: ", async (input) => {
       const trimmedInput = input.trim();
+      this.exitArmed = false;
       
       if (trimmedInput.toLowerCase() === 'quit' || trimmedInput.toLowerCase() === 'exit') {
         console.log("\n👋 Goodbye!");
@@ -110,40 +343,255 @@ class ChatCLI {
         this.chatLoop();
         return;
       }
-      
-      try {
-        // Check if we're in quiet mode to show spinner
-        const isQuietMode = await this.isQuietMode();
-        
-        if (isQuietMode) {
-          this.spinner.start('Thinking');
-          // Give spinner a moment to start before processing
-          await new Promise(resolve => setTimeout(resolve, 50));
-        }
-        
-        // Use complex query method for better multi-tool handling
-        const response = await this.llm.processComplexQuery(trimmedInput, 5);
-        
-        if (isQuietMode) {
-          this.spinner.stop();
-        }
-        
-        console.log(`\nLLM: ${response}\n`);
-      } catch (error) {
-        this.spinner.stop(); // Make sure spinner stops on error
-        console.error("❌ Error processing message:", error);
-        console.error("Error details:", error.message);
+
+      if (trimmedInput.startsWith('/')) {
+        await this.handleCommand(trimmedInput);
+        this.chatLoop();
+        return;
       }
       
+      // Use complex query method for better multi-tool handling
+      await this.respond((signal) => this.llm.processComplexQuery(trimmedInput, 5, signal));
+      
       this.chatLoop();
     });
   }
 
+  // Ctrl-C: cancel the running turn first, exit only on a second press
+  private interrupt() {
+    if (this.turn && !this.turn.signal.aborted) {
+      this.turn.abort();
+      this.exitArmed = true;
+      return;
+    }
+    if (this.exitArmed || this.lifecycle.isShuttingDown) {
+      console.log("\n👋 Goodbye!");
+      this.lifecycle.exit("interrupted");
+      return;
+    }
+    this.exitArmed = true;
+    console.log("\n(Press Ctrl-C again to exit, or type 'quit')");
+    this.rl.prompt();
+  }
+
+  private async respond(run: (signal: AbortSignal) => Promise<string>) {
+    this.turn = new AbortController();
+    try {
+      const isQuietMode = this.quiet;
+      
+      if (isQuietMode) {
+        this.spinner.start('Thinking');
+        // Give spinner a moment to start before processing
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      
+      const response = await run(this.turn.signal);
+      
+      if (isQuietMode) {
+        this.spinner.stop();
+      }
+      
+      console.log(`\nLLM: ${response}\n`);
+    } catch (error) {
+      this.spinner.stop(); // Make sure spinner stops on error
+      if (error instanceof TurnCancelled) {
+        console.log("\n⏹️  Cancelled. (Press Ctrl-C again to exit)\n");
+        return;
+      }
+      console.error("❌ Error processing message:", error);
+      console.error("Error details:", error.message);
+    } finally {
+      this.turn = null;
+    }
+  }
+
+  private async handleCommand(input: string) {
+    const [command] = input.split(/\s+/, 1);
+    const rest = input.slice(command.length).trim();
+
+    switch (command) {
+      case '/prompts':
+        await this.listPrompts();
+        break;
+      case '/prompt':
+        await this.runPrompt(rest);
+        break;
+      case '/verbose':
+      case '/quiet':
+        this.quiet = command === '/quiet';
+        this.llm.setVerboseLogging(!this.quiet);
+        console.log(this.quiet ? "🔇 Quiet mode: showing only final answers.\n" : "🔊 Verbose mode: showing processing details.\n");
+        break;
+      case '/loglevel':
+        await this.setServerLogLevel(rest);
+        break;
+      case '/approvals':
+        this.showApprovals(rest);
+        break;
+      case '/servers':
+        this.showServers();
+        break;
+      default:
+        console.log(`Unknown command: ${command}. Try /prompts, /prompt <name> key=value ..., /verbose, /quiet, /loglevel <level>, /approvals or /servers`);
+    }
+  }
+
+  private async setServerLogLevel(level: string) {
+    if (!LOG_LEVELS.includes(level as LoggingLevel)) {
+      console.log(`Usage: /loglevel <${LOG_LEVELS.join('|')}>\n`);
+      return;
+    }
+    try {
+      const supported = await this.llm.setServerLogLevel(level as LoggingLevel);
+      console.log(supported ? `📡 Server log level set to ${level}.\n` : "The server doesn't support logging.\n");
+    } catch (error) {
+      console.error("❌ Failed to set server log level:", error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private showApprovals(argument: string) {
+    if (argument === 'clear') {
+      this.llm.clearApprovalRules();
+      console.log("🧹 Removed all 'always allow' rules.\n");
+      return;
+    }
+    const rules = this.llm.listApprovalRules();
+    if (rules.length === 0) {
+      console.log("No 'always allow' rules for this project.\n");
+      return;
+    }
+    console.log("\n✅ Always allowed:");
+    for (const rule of rules) {
+      console.log(`• ${rule.tool}${rule.pattern ? ` when ${rule.pattern}` : ''}`);
+    }
+    console.log();
+  }
+
+  private showServers() {
+    console.log("\n🔌 MCP servers:");
+    for (const server of this.llm.serverStatus()) {
+      console.log(server.state === 'connected'
+        ? `• ${server.name}: connected, ${server.tools} tools (${server.target})`
+        : `• ${server.name}: ${server.state} (${server.target})${server.error ? `: ${server.error}` : ''}`);
+    }
+    console.log();
+  }
+
+  private async listPrompts() {
+    const prompts = await this.llm.listPrompts();
+    if (prompts.length === 0) {
+      console.log("No prompt templates available.\n");
+      return;
+    }
+    console.log("\n📝 Prompt templates:");
+    for (const prompt of prompts) {
+      const args = (prompt.arguments || [])
+        .map(arg => arg.required ? arg.name : `[${arg.name}]`)
+        .join(' ');
+      console.log(`• ${prompt.name} ${args}${prompt.description ? ` - ${prompt.description}` : ''}`);
+    }
+    console.log();
+  }
+
+  // /prompt <name> key=value key2="quoted value" - asks for missing required arguments
+  private async runPrompt(input: string) {
+    const [name] = input.split(/\s+/, 1);
+    if (!name) {
+      console.log("Usage: /prompt <name> key=value ...\n");
+      return;
+    }
+
+    const prompt = (await this.llm.listPrompts()).find(p => p.name === name);
+    if (!prompt) {
+      console.log(`Unknown prompt: ${name}. Use /prompts to list them.\n`);
+      return;
+    }
+
+    const args: Record<string, string> = {};
+    const argPattern = /(\w+)=(?:"([^"]*)"|'([^']*)'|(\S+))/g;
+    for (const match of input.slice(name.length).matchAll(argPattern)) {
+      args[match[1]] = match[2] ?? match[3] ?? match[4];
+    }
+
+    for (const arg of prompt.arguments || []) {
+      if (arg.required && !args[arg.name]) {
+        args[arg.name] = (await this.ask(`${arg.name}${arg.description ? ` (${arg.description})` : ''}: `)).trim();
+      }
+    }
+
+    await this.respond((signal) => this.llm.processPrompt(name, args, 5, signal));
+  }
+
+  // Resolves to '' when `signal` aborts before the user answers
+  private ask(question: string, signal?: AbortSignal): Promise<string> {
+    if (!signal) {
+      return new Promise(resolve => this.rl.question(question, resolve));
+    }
+    return new Promise(resolve => {
+      signal.addEventListener('abort', () => resolve(''), { once: true });
+      this.rl.question(question, { signal }, resolve);
+    });
+  }
+
+  // Like ask, but the answer isn't echoed or kept in the input history
+  private async askSecret(question: string, signal?: AbortSignal): Promise<string> {
+    const pending = this.ask(question, signal);
+    // rl.question has written the prompt by now
+    this.muted = true;
+    const answer = await pending;
+    this.muted = false;
+    const history: string[] = (this.rl as any).history;
+    if (answer && history?.[0] === answer) {
+      history.shift();
+    }
+    return answer;
+  }
+
   private async shutdown() {
-    await this.llm.shutdown();
-    this.rl.close();
-    process.exit(0);
+    await this.lifecycle.exit("user quit");
+  }
+}
+
+// Fields whose answer shouldn't show on screen: those the server marks
+// writeOnly, and those named like a password or key
+function isSecretField(name: string, field: any): boolean {
+  return field.writeOnly === true ||
+    /password|passphrase|passcode|secret|token|api[-_ ]?key|credential|\bpin\b/i.test(`${name} ${field.title ?? ''}`);
+}
+
+// The typed answer for one elicitation field, or why it doesn't fit the field's schema
+function parseField(field: any, answer: string): string | number | boolean | { error: string } {
+  if (field.enum) {
+    const index = Number(answer) - 1;
+    if (Number.isInteger(index) && index >= 0 && index < field.enum.length) {
+      return field.enum[index];
+    }
+    return field.enum.includes(answer) ? answer : { error: `Pick a number from 1 to ${field.enum.length}` };
+  }
+  if (field.type === 'boolean') {
+    const lower = answer.toLowerCase();
+    if (lower === 'y' || lower === 'yes' || lower === 'true') {
+      return true;
+    }
+    if (lower === 'n' || lower === 'no' || lower === 'false') {
+      return false;
+    }
+    return { error: "Answer y or n" };
+  }
+  if (field.type === 'number' || field.type === 'integer') {
+    const value = Number(answer);
+    if (Number.isNaN(value) || (field.type === 'integer' && !Number.isInteger(value))) {
+      return { error: `Enter ${field.type === 'integer' ? 'a whole number' : 'a number'}` };
+    }
+    if ((field.minimum !== undefined && value < field.minimum) || (field.maximum !== undefined && value > field.maximum)) {
+      return { error: `Enter a number from ${field.minimum ?? '-∞'} to ${field.maximum ?? '∞'}` };
+    }
+    return value;
+  }
+  if ((field.minLength !== undefined && answer.length < field.minLength) || (field.maxLength !== undefined && answer.length > field.maxLength)) {
+    return { error: `Enter ${field.minLength ?? 0} to ${field.maxLength ?? '∞'} characters` };
   }
+  return answer;
 }
 
 export { ChatCLI };
@@ -1,16 +1,143 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StdioClientTransport, getDefaultEnvironment } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import {
   CallToolRequestSchema,
   CallToolResult,
+  CallToolResultSchema,
+  Progress,
   ListToolsRequestSchema,
   ListToolsResult,
+  ResourceUpdatedNotificationSchema,
+  LoggingMessageNotificationSchema,
+  LoggingMessageNotification,
+  LoggingLevel,
+  Tool,
+  CreateMessageRequestSchema,
+  CreateMessageRequest,
+  CreateMessageResult,
+  ElicitRequestSchema,
+  ElicitRequest,
+  ElicitResult,
+  McpError,
+  ErrorCode,
 } from "@modelcontextprotocol/sdk/types.js";
+import { validateSchema, formatErrors } from "./schema";
 
+interface ConnectOptions {
+  // URL of a server running in HTTP mode, e.g. http://localhost:3000/mcp.
+  // Without it a server process is spawned over stdio.
+  url?: string;
+  // Sent with every HTTP request, e.g. Authorization
+  headers?: Record<string, string>;
+  // Server process to spawn; this project's own server by default
+  command?: string;
+  args?: string[];
+  // Added to the few variables a spawned server gets by default (PATH, HOME, ...)
+  env?: Record<string, string>;
+  cwd?: string;
+  // Whether the server's tool annotations can be believed. Only this
+  // project's own server, spawned by default, is trusted unless set.
+  trusted?: boolean;
+  // Watch the connection and reconnect when it's lost; on by default
+  supervision?: Partial<SupervisionOptions> | false;
+}
+
+interface SupervisionOptions {
+  // How often the server is pinged, and how long it has to answer
+  pingIntervalMs: number;
+  pingTimeoutMs: number;
+  // Unanswered pings in a row before the connection counts as lost
+  maxMissedPings: number;
+  // Reconnection attempts before giving up
+  maxReconnects: number;
+  // The delay before each attempt doubles from the first to the maximum
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+}
+
+type ConnectionState = "disconnected" | "connecting" | "connected" | "reconnecting" | "failed" | "closed";
+
+// Reported on every change of ConnectionState
+interface ConnectionEvent {
+  state: ConnectionState;
+  // Why the connection was lost, or why connecting failed
+  reason?: string;
+  // While reconnecting, and once reconnected or given up: the attempt, from 1
+  attempt?: number;
+  // While reconnecting: the delay before this attempt
+  retryInMs?: number;
+  // Once reconnected: the server's tools, listed again
+  tools?: Tool[];
+}
+
+// For starting the server and the initialize handshake
+const CONNECT_TIMEOUT_MS = 20000;
+
+const DEFAULT_SUPERVISION: SupervisionOptions = {
+  pingIntervalMs: 15000,
+  pingTimeoutMs: 5000,
+  maxMissedPings: 2,
+  maxReconnects: 6,
+  initialBackoffMs: 1000,
+  maxBackoffMs: 30000,
+};
+
+// Receives the server's notifications/message log entries
+type LogSink = (message: LoggingMessageNotification["params"]) => void;
+
+// Default sink: server log lines on stderr, out of the way of stdout output
+const consoleLogSink: LogSink = ({ level, logger, data }) => {
+  console.error(`[${logger ?? "server"}:${level}]`, typeof data === "string" ? data : JSON.stringify(data));
+};
+
+// Answers the server's sampling/createMessage requests; `signal` aborts when
+// the server cancels the request. Throwing sends the error back to the server.
+type SamplingHandler = (params: CreateMessageRequest["params"], signal: AbortSignal) => Promise<CreateMessageResult>;
+
+// Answers the server's elicitation/create requests by asking the user for
+// input matching the request's schema; `signal` as for SamplingHandler.
+type ElicitationHandler = (params: ElicitRequest["params"], signal: AbortSignal) => Promise<ElicitResult>;
+
+interface CallToolOptions {
+  // Receives progress notifications (e.g. streamed command output) while the tool runs
+  onProgress?: (progress: Progress) => void;
+  // Aborting sends a cancellation to the server, which stops the tool
+  signal?: AbortSignal;
+}
+
+// A tool call that didn't produce usable structured data. `result` is the
+// tool's response when there was one.
+class ToolCallError extends Error {
+  constructor(message: string, readonly result?: CallToolResult) {
+    super(message);
+  }
+}
 
 class MCPClient {
   private client: Client;
+  private transport: StdioClientTransport | StreamableHTTPClientTransport | null = null;
+  private connectOptions: ConnectOptions = {};
+  private supervision: SupervisionOptions | null = null;
+  private state: ConnectionState = "disconnected";
+  private stateHandler?: (event: ConnectionEvent) => void;
+  // Settles when the reconnection in progress succeeds (true) or gives up
+  private reconnecting: Promise<boolean> | null = null;
+  private pingTimer: NodeJS.Timeout | null = null;
+  private missedPings = 0;
+  // Aborted by close() to end a reconnection's backoff wait
+  private stopped = new AbortController();
+  // Restored on the server after reconnecting
+  private serverLogLevel?: LoggingLevel;
+  private subscriptions = new Set<string>();
+  // Tools marked read-only, which may be retried after a reconnect. Idempotent
+  // ones aren't: the hint says nothing about a call that half ran.
+  private readOnlyTools = new Set<string>();
   private verboseLogging: boolean = true;
+  private resourceUpdatedHandler?: (uri: string) => void;
+  private logSink: LogSink = consoleLogSink;
+  // outputSchema of every tool that declares one, from the last listTools
+  private outputSchemas: Map<string, Tool["outputSchema"]> | null = null;
 
   constructor() {
     this.client = new Client(
@@ -22,60 +149,422 @@ class MCPClient {
         capabilities: {},
       }
     );
+
+    this.client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      this.log(`Resource updated: ${notification.params.uri}`);
+      this.resourceUpdatedHandler?.(notification.params.uri);
+    });
+
+    this.client.setNotificationHandler(LoggingMessageNotificationSchema, async (notification) => {
+      this.logSink(notification.params);
+    });
+
+    // Fires when a stdio server exits or the transport is closed
+    this.client.onclose = () => this.connectionLost("the connection closed");
   }
 
-  async connect() {
+  async connect(options: ConnectOptions = {}) {
     this.log("Client connecting to MCP server...");
-    
+    this.connectOptions = options;
+    this.stopped = new AbortController();
+    this.supervision = options.supervision === false ? null : { ...DEFAULT_SUPERVISION, ...options.supervision };
+    this.setState({ state: "connecting" });
+
     try {
-      // Connect to the server process via stdio
-      const transport = new StdioClientTransport({
-        command: "node",
-        args: ["dist/index.js", "server"] // Updated path and args
-      });
-      
-      await this.client.connect(transport);
-      this.log("Connected to MCP server");
+      await this.open();
+      this.log(`Connected to MCP server${options.url ? ` at ${options.url}` : ""}`);
     } catch (error) {
       console.error("Failed to connect to server:", error);
+      this.setState({ state: "failed", reason: errorMessage(error) });
       throw error;
     }
+    this.setState({ state: "connected" });
+    this.startPinging();
+  }
+
+  // Report connection state changes, e.g. to tell the user the server restarted
+  setConnectionStateHandler(handler: (event: ConnectionEvent) => void) {
+    this.stateHandler = handler;
+  }
+
+  get connectionState(): ConnectionState {
+    return this.state;
+  }
+
+  // Start the server process or open the HTTP connection, and initialize
+  private async open() {
+    const options = this.connectOptions;
+    const transport = options.url
+        // Connect to an already running server over Streamable HTTP
+        ? new StreamableHTTPClientTransport(new URL(options.url), {
+          requestInit: options.headers ? { headers: options.headers } : undefined,
+        })
+        // Connect to the server process via stdio
+        : new StdioClientTransport({
+          command: options.command ?? "node",
+          args: options.command ? options.args : ["dist/index.js", "server"],
+          env: options.env ? { ...getDefaultEnvironment(), ...options.env } : undefined,
+          cwd: options.cwd,
+        });
+
+    this.transport = transport;
+    await this.client.connect(transport, { timeout: CONNECT_TIMEOUT_MS });
+  }
+
+  // Close the transport and fail the requests still waiting on it. A stdio
+  // transport only reports closing once its process has exited, which could be
+  // after the next connection is up, so that report is cut off here.
+  private async dropTransport() {
+    const transport = this.transport;
+    this.transport = null;
+    if (!transport) {
+      return;
+    }
+    const protocolOnclose = transport.onclose;
+    transport.onclose = undefined;
+    await transport.close().catch(() => {});
+    protocolOnclose?.();
+  }
+
+  private connectionLost(reason: string) {
+    if (this.state !== "connected") {
+      return;
+    }
+    this.stopPinging();
+    if (!this.supervision) {
+      this.setState({ state: "disconnected", reason });
+      return;
+    }
+    this.reconnecting = this.reconnect(reason).finally(() => {
+      this.reconnecting = null;
+    });
+  }
+
+  // Restart the server (or reopen the HTTP connection) with exponential
+  // backoff, then list the tools again and restore log level and subscriptions
+  private async reconnect(reason: string): Promise<boolean> {
+    const supervision = this.supervision!;
+    this.setState({ state: "reconnecting", reason });
+    await this.dropTransport();
+
+    for (let attempt = 1; attempt <= supervision.maxReconnects; attempt++) {
+      const delay = Math.min(supervision.initialBackoffMs * 2 ** (attempt - 1), supervision.maxBackoffMs);
+      this.setState({ state: "reconnecting", reason, attempt, retryInMs: delay });
+      await sleep(delay, this.stopped.signal);
+      if (this.stopped.signal.aborted) {
+        return false;
+      }
+
+      try {
+        await this.open();
+        const tools = await this.fetchTools();
+        if (this.serverLogLevel) {
+          await this.setServerLogLevel(this.serverLogLevel);
+        }
+        for (const uri of this.subscriptions) {
+          await this.client.subscribeResource({ uri });
+        }
+        this.setState({ state: "connected", attempt, tools });
+        this.startPinging();
+        return true;
+      } catch (error) {
+        reason = errorMessage(error);
+        this.log(`Reconnection attempt ${attempt} failed: ${reason}`);
+        await this.dropTransport();
+      }
+    }
+
+    this.setState({ state: "failed", reason, attempt: supervision.maxReconnects });
+    return false;
+  }
+
+  // Resolves to whether the server can take requests, waiting for a
+  // reconnection in progress unless `signal` aborts first
+  private async ready(signal?: AbortSignal): Promise<boolean> {
+    if (this.reconnecting && !signal?.aborted) {
+      const aborted = new Promise<boolean>((resolve) => signal?.addEventListener("abort", () => resolve(false), { once: true }));
+      return Promise.race([this.reconnecting, aborted]);
+    }
+    return this.state === "connected" && !signal?.aborted;
+  }
+
+  private startPinging() {
+    const supervision = this.supervision;
+    if (!supervision) {
+      return;
+    }
+    this.missedPings = 0;
+    let pending = false;
+    this.pingTimer = setInterval(() => {
+      if (pending) {
+        return;
+      }
+      pending = true;
+      this.checkConnection().finally(() => {
+        pending = false;
+      });
+    }, supervision.pingIntervalMs);
+    // Pinging alone shouldn't keep the process running
+    this.pingTimer.unref();
+  }
+
+  private stopPinging() {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
+  // Ping the server; enough unanswered pings in a row count as a lost connection
+  private async checkConnection() {
+    if (this.state !== "connected" || !this.supervision) {
+      return;
+    }
+    try {
+      await this.client.ping({ timeout: this.supervision.pingTimeoutMs });
+      this.missedPings = 0;
+    } catch (error) {
+      this.missedPings++;
+      this.log(`Ping ${this.missedPings}/${this.supervision.maxMissedPings} failed: ${errorMessage(error)}`);
+      if (this.missedPings >= this.supervision.maxMissedPings) {
+        this.connectionLost(`the server stopped answering pings (${errorMessage(error)})`);
+      }
+    }
+  }
+
+  private setState(event: ConnectionEvent) {
+    this.state = event.state;
+    this.stateHandler?.(event);
+  }
+
+  get trusted(): boolean {
+    return this.connectOptions.trusted ?? (!this.connectOptions.url && !this.connectOptions.command);
   }
 
   async listTools() {
     try {
-      const response = await this.client.listTools() as ListToolsResult;
-      
-      this.log("Available tools:");
-      response.tools.forEach((tool) => {
-        this.log(`- ${tool.name}: ${tool.description}`);
-      });
-      
-      return response.tools;
+      return await this.fetchTools();
     } catch (error) {
       console.error("Error listing tools:", error);
       return [];
     }
   }
 
-  async callTool(name: string, args: any = {}) {
-    try {
-      const response = await this.client.callTool({
-        name,
-        arguments: args,
-      }) as CallToolResult;
-
-      this.log(`Tool '${name}' response:`);
-      response.content.forEach((content) => {
-        if (content.type === "text") {
-          this.log(content.text);
+  private async fetchTools(): Promise<Tool[]> {
+    const response = await this.client.listTools() as ListToolsResult;
+    this.outputSchemas = new Map(
+      response.tools.filter((tool) => tool.outputSchema).map((tool) => [tool.name, tool.outputSchema])
+    );
+    // Any server can call a tool read-only, so only a trusted one gets retries
+    this.readOnlyTools = new Set(this.trusted
+      ? response.tools.filter((tool) => tool.annotations?.readOnlyHint).map((tool) => tool.name)
+      : []);
+
+    this.log("Available tools:");
+    response.tools.forEach((tool) => {
+      this.log(`- ${tool.name}: ${tool.description}`);
+    });
+
+    return response.tools;
+  }
+
+  // While the server is reconnecting the call waits for it. A call cut off by
+  // a lost connection is made again once reconnected if the tool is read-only
+  // or the request never went out; otherwise, like when the server can't be
+  // reached, the result is an error saying so. Other failures come back as
+  // error results too; only a cancelled call returns undefined.
+  async callTool(name: string, args: any = {}, options: CallToolOptions = {}): Promise<CallToolResult | undefined> {
+    for (let retried = false; ; retried = true) {
+      if (!(await this.ready(options.signal))) {
+        if (options.signal?.aborted) {
+          this.log(`Tool '${name}' cancelled`);
+          return;
+        }
+        return errorResult(`The MCP server is unavailable (${this.state}), so '${name}' was not run.`);
+      }
+      try {
+        const response = await this.client.callTool({
+          name,
+          arguments: args,
+        }, CallToolResultSchema, {
+          onprogress: options.onProgress,
+          signal: options.signal,
+          // Long-running tools stay alive as long as they keep reporting progress
+          resetTimeoutOnProgress: !!options.onProgress,
+        }) as CallToolResult;
+
+        this.log(`Tool '${name}' ${response.isError ? "returned an error" : "response"}:`);
+        response.content.forEach((content) => {
+          if (content.type === "text") {
+            this.log(content.text);
+          }
+        });
+
+        return response;
+      } catch (error) {
+        if (options.signal?.aborted) {
+          this.log(`Tool '${name}' cancelled`);
+          return;
+        }
+        // An HTTP server that went away shows up as a failed request, so check
+        if (!(error instanceof McpError && error.code === ErrorCode.ConnectionClosed)) {
+          await this.checkConnection();
+        }
+        if (this.state === "connected") {
+          console.error(`Error calling tool '${name}':`, error);
+          return errorResult(`Error calling tool '${name}': ${error instanceof Error ? error.message : String(error)}`);
         }
+        if (!this.readOnlyTools.has(name) && !notSent(error)) {
+          return errorResult(`The connection to the MCP server was lost while '${name}' was running, so it may or may not have taken effect. It was not retried because it isn't marked read-only.`);
+        }
+        if (retried) {
+          return errorResult(`The connection to the MCP server was lost twice while '${name}' was running.`);
+        }
+        this.log(`Tool '${name}' was cut off by a lost connection; retrying it once reconnected`);
+      }
+    }
+  }
+
+  // Call a tool that declares an outputSchema and return its structuredContent,
+  // checked against that schema. Throws a ToolCallError when the tool fails or
+  // its data doesn't match, e.g.
+  //   const { iso, timezone } = await client.callToolData<TimeOutput>("get_time");
+  // Waits for and retries across reconnections like callTool.
+  async callToolData<T = Record<string, unknown>>(name: string, args: any = {}, options: CallToolOptions = {}): Promise<T> {
+    if (!(await this.ready(options.signal))) {
+      throw new ToolCallError(options.signal?.aborted ? `Tool '${name}' cancelled` : `The MCP server is unavailable (${this.state})`);
+    }
+    if (!this.outputSchemas) {
+      await this.listTools();
+    }
+    const schema = this.outputSchemas?.get(name);
+    if (!schema) {
+      throw new ToolCallError(`Tool '${name}' does not declare an outputSchema`);
+    }
+
+    const response = await this.callTool(name, args, options);
+    if (!response) {
+      throw new ToolCallError(`Tool '${name}' cancelled`);
+    }
+
+    if (response.isError) {
+      const message = response.content
+        .map((content) => content.type === "text" ? content.text : "")
+        .join("\n");
+      throw new ToolCallError(`Tool '${name}' failed: ${message}`, response);
+    }
+    if (response.structuredContent === undefined) {
+      throw new ToolCallError(`Tool '${name}' returned no structuredContent`, response);
+    }
+    const validation = validateSchema(schema, response.structuredContent);
+    if (!validation.valid) {
+      throw new ToolCallError(`Tool '${name}' returned data that doesn't match its outputSchema:\n${formatErrors(validation.errors)}`, response);
+    }
+
+    this.log(`Tool '${name}' data:`, JSON.stringify(response.structuredContent));
+    return response.structuredContent as T;
+  }
+
+  async listResources() {
+    try {
+      const response = await this.client.listResources();
+
+      this.log("Available resources:");
+      response.resources.forEach((resource) => {
+        this.log(`- ${resource.uri}: ${resource.name}`);
       });
 
-      return response;
+      return response.resources;
+    } catch (error) {
+      console.error("Error listing resources:", error);
+      return [];
+    }
+  }
+
+  async listResourceTemplates() {
+    try {
+      const response = await this.client.listResourceTemplates();
+      return response.resourceTemplates;
+    } catch (error) {
+      console.error("Error listing resource templates:", error);
+      return [];
+    }
+  }
+
+  async readResource(uri: string) {
+    try {
+      const response = await this.client.readResource({ uri });
+      return response.contents;
+    } catch (error) {
+      console.error(`Error reading resource '${uri}':`, error);
+    }
+  }
+
+  async listPrompts() {
+    try {
+      const response = await this.client.listPrompts();
+      return response.prompts;
     } catch (error) {
-      console.error(`Error calling tool '${name}':`, error);
+      console.error("Error listing prompts:", error);
+      return [];
+    }
+  }
+
+  // Fill in a prompt template; throws when the server rejects the arguments
+  async getPrompt(name: string, args: Record<string, string> = {}) {
+    return this.client.getPrompt({ name, arguments: args });
+  }
+
+  // Subscribe to change notifications for a resource, e.g. log://server
+  async subscribeResource(uri: string, onUpdated?: (uri: string) => void) {
+    if (onUpdated) {
+      this.resourceUpdatedHandler = onUpdated;
+    }
+    await this.client.subscribeResource({ uri });
+    this.subscriptions.add(uri);
+  }
+
+  async unsubscribeResource(uri: string) {
+    await this.client.unsubscribeResource({ uri });
+    this.subscriptions.delete(uri);
+  }
+
+  // Let server tools ask for LLM completions (MCP sampling). Must be called
+  // before connect so the capability is advertised.
+  setSamplingHandler(handler: SamplingHandler) {
+    this.client.registerCapabilities({ sampling: {} });
+    this.client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) => {
+      this.log(`🧠 Server requested a completion (up to ${request.params.maxTokens} tokens)`);
+      return handler(request.params, extra.signal);
+    });
+  }
+
+  // Let server tools ask the user for input (MCP elicitation). Must be called
+  // before connect so the capability is advertised.
+  setElicitationHandler(handler: ElicitationHandler) {
+    this.client.registerCapabilities({ elicitation: {} });
+    this.client.setRequestHandler(ElicitRequestSchema, async (request, extra) => {
+      this.log(`🙋 Server asked the user for input: ${request.params.message}`);
+      const result = await handler(request.params, extra.signal);
+      this.log(`🙋 User answered with ${result.action}`);
+      return result;
+    });
+  }
+
+  // Route server log messages somewhere other than stderr
+  setLogSink(sink: LogSink) {
+    this.logSink = sink;
+  }
+
+  // Ask the server to send log messages at this level and above. Returns
+  // false if the server doesn't support logging.
+  async setServerLogLevel(level: LoggingLevel): Promise<boolean> {
+    if (!this.client.getServerCapabilities()?.logging) {
+      return false;
     }
+    await this.client.setLoggingLevel(level);
+    this.serverLogLevel = level;
+    return true;
   }
 
   // Method to set logging mode
@@ -91,8 +580,51 @@ class MCPClient {
   }
 
   async close() {
+    this.stopped.abort();
+    this.stopPinging();
+    this.setState({ state: "closed" });
+    // End the HTTP session explicitly so the server can release it
+    if (this.transport instanceof StreamableHTTPClientTransport) {
+      await this.transport.terminateSession().catch(() => {});
+    }
     await this.client.close();
   }
 }
 
-export { MCPClient };
+// Resolves after `ms`, or early when `signal` aborts
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// The SDK's error for a request made with no transport to send it on
+function notSent(error: unknown): boolean {
+  return error instanceof Error && !(error instanceof McpError) && error.message === "Not connected";
+}
+
+function errorResult(text: string): CallToolResult {
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+export {
+  MCPClient,
+  ConnectOptions,
+  SupervisionOptions,
+  ConnectionState,
+  ConnectionEvent,
+  CallToolOptions,
+  ToolCallError,
+  LogSink,
+  consoleLogSink,
+  SamplingHandler,
+  ElicitationHandler,
+};
@@ -0,0 +1,321 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { LoggingLevel, LoggingLevelSchema } from "@modelcontextprotocol/sdk/types.js";
+import { validateSchema, formatErrors } from "./schema";
+import { BashPolicy } from "./sandbox";
+import { FsPolicy } from "./workspace";
+import { BrowserProviderConfig } from "./browser";
+import { SearchProviderConfig } from "./search";
+import { AuditConfig } from "./audit";
+import { FetchConfig } from "./fetcher";
+
+// Everything the server can be configured with, in one place. Values are
+// layered: defaults, then MCP_* environment variables, then the config file
+// (--config, MCP_SERVER_CONFIG or ./mcp-server.json), then MCPServerOptions.
+
+// Applied by the tool registry to every call of a tool
+interface ToolLimits {
+  // The call is cancelled and fails after this long
+  timeoutMs?: number;
+  // Text content beyond this many characters is cut off
+  maxOutputChars?: number;
+}
+
+interface ToolsConfig {
+  // Tool names to offer; * is a wildcard. Everything when unset.
+  enabled?: string[];
+  // Tool names to hide even if enabled
+  disabled?: string[];
+  // Keyed by tool name; "*" applies to tools without their own entry
+  limits?: Record<string, ToolLimits>;
+  // Directory of extra tool modules
+  dir?: string;
+}
+
+// Where a secret is read from: an environment variable, a file (e.g. a
+// mounted secret) or, for local experiments, the config file itself
+type CredentialSource = { env: string } | { file: string } | { value: string };
+
+interface Credentials {
+  browserbaseApiKey?: string;
+  browserbaseProjectId?: string;
+  linkupApiKey?: string;
+}
+
+interface ServerConfig {
+  tools: ToolsConfig;
+  promptsDir?: string;
+  logging: { level: LoggingLevel };
+  browser: BrowserProviderConfig;
+  search: SearchProviderConfig;
+  fetch: FetchConfig;
+  bash: Partial<BashPolicy>;
+  fs: Partial<FsPolicy>;
+  audit: AuditConfig;
+  credentials: Partial<Record<keyof Credentials, CredentialSource>>;
+}
+
+class ConfigError extends Error {}
+
+const DEFAULT_CONFIG_FILE = "mcp-server.json";
+
+// Conventional environment variable of each credential
+const CREDENTIAL_ENV: Record<keyof Credentials, string> = {
+  browserbaseApiKey: "BROWSERBASE_API_KEY",
+  browserbaseProjectId: "BROWSERBASE_PROJECT_ID",
+  linkupApiKey: "LINKUP_API_KEY",
+};
+
+const LIMITS_SCHEMA = {
+  type: "object",
+  properties: {
+    timeoutMs: { type: "integer", minimum: 1 },
+    maxOutputChars: { type: "integer", minimum: 1 },
+  },
+  additionalProperties: false,
+};
+
+const CREDENTIAL_SCHEMA = {
+  type: "object",
+  properties: {
+    env: { type: "string", minLength: 1 },
+    file: { type: "string", minLength: 1 },
+    value: { type: "string" },
+  },
+  additionalProperties: false,
+};
+
+// Only the shape is checked here; the bash and fs sections are validated in
+// full by their own policy loaders
+const CONFIG_SCHEMA = {
+  type: "object",
+  properties: {
+    tools: {
+      type: "object",
+      properties: {
+        enabled: { type: "array", items: { type: "string" } },
+        disabled: { type: "array", items: { type: "string" } },
+        limits: { type: "object", additionalProperties: LIMITS_SCHEMA },
+        dir: { type: "string" },
+      },
+      additionalProperties: false,
+    },
+    promptsDir: { type: "string" },
+    logging: {
+      type: "object",
+      properties: {
+        level: { type: "string", enum: LoggingLevelSchema.options },
+      },
+      additionalProperties: false,
+    },
+    browser: {
+      type: "object",
+      properties: {
+        type: { type: "string", enum: ["browserbase", "local"] },
+        executablePath: { type: "string" },
+        headless: { type: "boolean" },
+        args: { type: "array", items: { type: "string" } },
+      },
+      additionalProperties: false,
+    },
+    search: {
+      type: "object",
+      properties: {
+        type: { type: "string", enum: ["linkup", "local"] },
+        indexDir: { type: "string" },
+      },
+      additionalProperties: false,
+    },
+    fetch: {
+      type: "object",
+      properties: {
+        timeoutMs: { type: "integer", minimum: 1 },
+        maxBytes: { type: "integer", minimum: 1 },
+        maxRedirects: { type: "integer", minimum: 0 },
+        contentTypes: { type: "array", items: { type: "string", minLength: 1 } },
+        cacheDir: { type: "string", minLength: 1 },
+        cacheTtlSeconds: { type: "integer", minimum: 0 },
+        userAgent: { type: "string", minLength: 1 },
+        allowLoopback: { type: "boolean" },
+        allowPrivateNetworks: { type: "boolean" },
+      },
+      additionalProperties: false,
+    },
+    bash: { type: "object" },
+    fs: { type: "object" },
+    audit: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean" },
+        file: { type: "string", minLength: 1 },
+        maxResultChars: { type: "integer", minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    credentials: {
+      type: "object",
+      properties: {
+        browserbaseApiKey: CREDENTIAL_SCHEMA,
+        browserbaseProjectId: CREDENTIAL_SCHEMA,
+        linkupApiKey: CREDENTIAL_SCHEMA,
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+// The MCP_* variables that predate the config file
+function configFromEnv(): Partial<ServerConfig> {
+  const env = process.env;
+  const config: Partial<ServerConfig> = {
+    tools: { dir: env.MCP_TOOLS_DIR },
+    promptsDir: env.MCP_PROMPTS_DIR,
+    browser: {
+      type: env.MCP_BROWSER_PROVIDER as BrowserProviderConfig["type"],
+      executablePath: env.MCP_BROWSER_EXECUTABLE,
+      headless: env.MCP_BROWSER_HEADLESS !== undefined ? env.MCP_BROWSER_HEADLESS !== "false" : undefined,
+    },
+    search: {
+      type: env.MCP_SEARCH_PROVIDER as SearchProviderConfig["type"],
+      indexDir: env.MCP_SEARCH_INDEX_DIR,
+    },
+    audit: { file: env.MCP_AUDIT_LOG },
+  };
+  if (env.MCP_LOG_LEVEL) {
+    if (!LoggingLevelSchema.options.includes(env.MCP_LOG_LEVEL as LoggingLevel)) {
+      throw new ConfigError(`Invalid MCP_LOG_LEVEL "${env.MCP_LOG_LEVEL}" (expected one of ${LoggingLevelSchema.options.join(", ")})`);
+    }
+    config.logging = { level: env.MCP_LOG_LEVEL as LoggingLevel };
+  }
+  return config;
+}
+
+// Read and validate the config file, if there is one. An explicitly named file
+// must exist; ./mcp-server.json is only picked up when present.
+function readConfigFile(file?: string): Partial<ServerConfig> {
+  const named = file || process.env.MCP_SERVER_CONFIG;
+  const configFile = named || (fs.existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : undefined);
+  if (!configFile) {
+    return {};
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(fs.readFileSync(configFile, "utf8"));
+  } catch (error) {
+    throw new ConfigError(`Cannot read config file ${configFile}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const validation = validateSchema(CONFIG_SCHEMA, parsed);
+  if (!validation.valid) {
+    throw new ConfigError(`Invalid config file ${configFile}:\n${formatErrors(validation.errors)}`);
+  }
+
+  for (const [name, source] of Object.entries<any>(parsed.credentials ?? {})) {
+    if (Object.keys(source).length !== 1) {
+      throw new ConfigError(`Invalid config file ${configFile}:\n- credentials.${name}: must have exactly one of env, file or value`);
+    }
+  }
+
+  // Paths in the file are relative to the file, not to wherever the server starts
+  const base = path.dirname(path.resolve(configFile));
+  const resolve = (value?: string) => value !== undefined ? path.resolve(base, value) : undefined;
+  if (parsed.tools?.dir) parsed.tools.dir = resolve(parsed.tools.dir);
+  if (parsed.promptsDir) parsed.promptsDir = resolve(parsed.promptsDir);
+  if (parsed.search?.indexDir) parsed.search.indexDir = resolve(parsed.search.indexDir);
+  if (parsed.audit?.file) parsed.audit.file = resolve(parsed.audit.file);
+  if (parsed.fetch?.cacheDir) parsed.fetch.cacheDir = resolve(parsed.fetch.cacheDir);
+  if (parsed.bash?.workingDirectory) parsed.bash.workingDirectory = resolve(parsed.bash.workingDirectory);
+  if (Array.isArray(parsed.fs?.roots)) parsed.fs.roots = parsed.fs.roots.map((root: any) => typeof root === "string" ? resolve(root) : root);
+  for (const source of Object.values(parsed.credentials ?? {}) as any[]) {
+    if (source.file) source.file = resolve(source.file.replace(/^~(?=\/|$)/, os.homedir()));
+  }
+  return parsed;
+}
+
+// Defaults < environment < config file < overrides, section by section
+function loadServerConfig(file?: string, overrides: Partial<ServerConfig> = {}): ServerConfig {
+  const layers = [configFromEnv(), readConfigFile(file), overrides];
+  const merge = <K extends keyof ServerConfig>(key: K, initial: ServerConfig[K]): ServerConfig[K] =>
+    layers.reduce((merged: any, layer) => ({ ...merged, ...withoutUndefined(layer[key]) }), initial);
+
+  const promptsDir = layers.map((layer) => layer.promptsDir).filter(Boolean).pop();
+  return {
+    tools: merge("tools", {}),
+    promptsDir: promptsDir || (fs.existsSync("prompts") ? "prompts" : undefined),
+    logging: merge("logging", { level: "info" }),
+    browser: merge("browser", {}),
+    search: merge("search", {}),
+    fetch: merge("fetch", {}),
+    bash: merge("bash", {}),
+    fs: merge("fs", {}),
+    audit: merge("audit", {}),
+    credentials: merge("credentials", {}),
+  };
+}
+
+// Look up every credential. Unset ones are left out so that the tools needing
+// them can be hidden; an unreadable credential file is a config error.
+function resolveCredentials(config: ServerConfig): Credentials {
+  const credentials: Credentials = {};
+  for (const name of Object.keys(CREDENTIAL_ENV) as (keyof Credentials)[]) {
+    const source: CredentialSource = config.credentials[name] ?? { env: CREDENTIAL_ENV[name] };
+    let value: string | undefined;
+    if ("env" in source) {
+      value = process.env[source.env];
+    } else if ("file" in source) {
+      try {
+        value = fs.readFileSync(source.file, "utf8").trim();
+      } catch (error) {
+        throw new ConfigError(`Cannot read credential ${name} from ${source.file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } else {
+      value = source.value;
+    }
+    if (value) {
+      credentials[name] = value;
+    }
+  }
+  return credentials;
+}
+
+// Where a credential is expected, for messages about a missing one
+function describeCredentialSource(config: ServerConfig, name: keyof Credentials): string {
+  const source = config.credentials[name] ?? { env: CREDENTIAL_ENV[name] };
+  if ("env" in source) return `environment variable ${source.env}`;
+  if ("file" in source) return `file ${source.file}`;
+  return `credentials.${name} in the config file`;
+}
+
+// Listed in `enabled` (everything when unset) and not in `disabled`
+function toolEnabled(tools: ToolsConfig, name: string): boolean {
+  const matches = (pattern: string) =>
+    new RegExp(`^${pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`).test(name);
+  return (tools.enabled ?? ["*"]).some(matches) && !(tools.disabled ?? []).some(matches);
+}
+
+// The tool's own limits, or the "*" defaults
+function limitsFor(tools: ToolsConfig, name: string): ToolLimits {
+  return tools.limits?.[name] ?? tools.limits?.["*"] ?? {};
+}
+
+function withoutUndefined<T>(value: T | undefined): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value ?? {}).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+}
+
+export {
+  ServerConfig,
+  ToolsConfig,
+  ToolLimits,
+  Credentials,
+  CredentialSource,
+  ConfigError,
+  loadServerConfig,
+  resolveCredentials,
+  describeCredentialSource,
+  toolEnabled,
+  limitsFor,
+};
@@ -0,0 +1,331 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as net from "net";
+import { lookup } from "dns/promises";
+import { createHash } from "crypto";
+
+// Plain HTTP(S) fetching for fetch_url: no browser, bounded in time, size and
+// redirects, and with an on-disk cache of GET responses.
+
+interface FetchConfig {
+  // For the whole request, redirects included
+  timeoutMs?: number;
+  // Response bodies are cut off beyond this
+  maxBytes?: number;
+  maxRedirects?: number;
+  // Media types that may be fetched; * is a wildcard, e.g. "text/*"
+  contentTypes?: string[];
+  cacheDir?: string;
+  // How long a cached GET response is served; 0 turns the cache off
+  cacheTtlSeconds?: number;
+  userAgent?: string;
+  // Hosts on this machine (127.0.0.0/8, ::1) and on private networks (RFC
+  // 1918, link-local such as cloud metadata at 169.254.169.254, IPv6 unique
+  // local) are refused unless allowed here, e.g. loopback for local testing
+  allowLoopback?: boolean;
+  allowPrivateNetworks?: boolean;
+}
+
+interface FetchRequest {
+  url: string;
+  method?: "GET" | "POST";
+  headers?: Record<string, string>;
+  body?: string;
+  // Fetch again even if the cache has a fresh copy
+  refresh?: boolean;
+}
+
+interface FetchedPage {
+  url: string;
+  // After redirects
+  finalUrl: string;
+  status: number;
+  statusText: string;
+  // Media type without parameters, e.g. text/html
+  contentType: string;
+  body: string;
+  // The body was longer than maxBytes and has been cut off
+  truncated: boolean;
+  fetchedAt: string;
+  fromCache: boolean;
+}
+
+class FetchError extends Error {}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_CACHE_DIR = ".mcp-fetch-cache";
+const DEFAULT_CACHE_TTL_SECONDS = 900;
+const DEFAULT_CONTENT_TYPES = [
+  "text/*",
+  "application/xhtml+xml",
+  "application/xml",
+  "application/*+xml",
+  "application/json",
+  "application/*+json",
+  "application/javascript",
+];
+const DEFAULT_USER_AGENT = "hello-world-mcp-server/1.0 (fetch_url)";
+// Not passed on when a redirect leads to another origin, and requests carrying
+// them aren't cached
+const CREDENTIAL_HEADERS = ["authorization", "cookie", "proxy-authorization"];
+
+const LOOPBACK_ADDRESSES = new net.BlockList();
+LOOPBACK_ADDRESSES.addSubnet("127.0.0.0", 8, "ipv4");
+// Linux connects to 0.0.0.0 on the local machine
+LOOPBACK_ADDRESSES.addSubnet("0.0.0.0", 8, "ipv4");
+LOOPBACK_ADDRESSES.addAddress("::1", "ipv6");
+LOOPBACK_ADDRESSES.addAddress("::", "ipv6");
+
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [["10.0.0.0", 8], ["172.16.0.0", 12], ["192.168.0.0", 16], ["100.64.0.0", 10], ["169.254.0.0", 16], ["224.0.0.0", 4], ["240.0.0.0", 4]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+class UrlFetcher {
+  private timeoutMs: number;
+  private maxBytes: number;
+  private maxRedirects: number;
+  private contentTypes: string[];
+  private cacheDir: string;
+  private cacheTtlMs: number;
+  private userAgent: string;
+  private allowLoopback: boolean;
+  private allowPrivateNetworks: boolean;
+  private pruned = false;
+
+  constructor(config: FetchConfig = {}) {
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxBytes = config.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.maxRedirects = config.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+    this.contentTypes = config.contentTypes ?? DEFAULT_CONTENT_TYPES;
+    this.cacheDir = path.resolve(config.cacheDir || DEFAULT_CACHE_DIR);
+    this.cacheTtlMs = (config.cacheTtlSeconds ?? DEFAULT_CACHE_TTL_SECONDS) * 1000;
+    this.userAgent = config.userAgent || DEFAULT_USER_AGENT;
+    this.allowLoopback = config.allowLoopback ?? false;
+    this.allowPrivateNetworks = config.allowPrivateNetworks ?? false;
+  }
+
+  // Throws FetchError for anything that yields no usable response: bad URL,
+  // network failure, timeout, too many redirects or a content type not allowed.
+  // HTTP error statuses come back as pages.
+  async fetch(request: FetchRequest, signal?: AbortSignal): Promise<FetchedPage> {
+    // Responses to credentialed requests are private, so they stay off disk
+    const cacheable = (request.method ?? "GET") === "GET" && this.cacheTtlMs > 0 && !hasCredentials(request);
+    const key = cacheKey(request);
+    if (cacheable && !request.refresh) {
+      const cached = this.readCache(key);
+      if (cached) {
+        return { ...cached, fromCache: true };
+      }
+    }
+
+    const page = await this.download(request, signal);
+    if (cacheable && page.status >= 200 && page.status < 300) {
+      this.writeCache(key, page);
+    }
+    return page;
+  }
+
+  private async download(request: FetchRequest, signal?: AbortSignal): Promise<FetchedPage> {
+    const timeout = AbortSignal.timeout(this.timeoutMs);
+    const combined = signal ? AbortSignal.any([signal, timeout]) : timeout;
+    let url = parseHttpUrl(request.url);
+    let method = request.method ?? "GET";
+    let body = request.body;
+    let headers: Record<string, string> = {
+      "user-agent": this.userAgent,
+      accept: "text/html,application/xhtml+xml,text/plain,text/markdown,application/json;q=0.9,*/*;q=0.5",
+      ...lowerCaseKeys(request.headers ?? {}),
+    };
+
+    try {
+      for (let redirects = 0; ; redirects++) {
+        // Every hop, since a public page may redirect to an internal one
+        await this.checkAddress(url);
+        const response = await fetch(url, {
+          method,
+          headers,
+          body: method === "POST" ? body : undefined,
+          redirect: "manual",
+          signal: combined,
+        });
+
+        const location = response.headers.get("location");
+        if (response.status >= 300 && response.status < 400 && location) {
+          await response.body?.cancel();
+          if (redirects >= this.maxRedirects) {
+            throw new FetchError(`Too many redirects (more than ${this.maxRedirects}) fetching ${request.url}`);
+          }
+          const next = parseHttpUrl(new URL(location, url).href);
+          if (next.origin !== url.origin) {
+            headers = Object.fromEntries(Object.entries(headers).filter(([name]) => !CREDENTIAL_HEADERS.includes(name)));
+          }
+          // As browsers do: 303, and 301/302 after a POST, continue with a GET
+          if (response.status === 303 || (method === "POST" && (response.status === 301 || response.status === 302))) {
+            method = "GET";
+            body = undefined;
+          }
+          url = next;
+          continue;
+        }
+
+        const contentTypeHeader = response.headers.get("content-type") || "application/octet-stream";
+        const contentType = contentTypeHeader.split(";")[0].trim().toLowerCase();
+        if (!this.contentTypes.some((pattern) => matchesMediaType(pattern, contentType))) {
+          await response.body?.cancel();
+          throw new FetchError(`Content type ${contentType} of ${url.href} is not allowed (allowed: ${this.contentTypes.join(", ")})`);
+        }
+
+        const { bytes, truncated } = await readLimited(response, this.maxBytes);
+        return {
+          url: request.url,
+          finalUrl: url.href,
+          status: response.status,
+          statusText: response.statusText,
+          contentType,
+          body: decode(bytes, contentTypeHeader),
+          truncated,
+          fetchedAt: new Date().toISOString(),
+          fromCache: false,
+        };
+      }
+    } catch (error) {
+      if (error instanceof FetchError) {
+        throw error;
+      }
+      if (signal?.aborted) {
+        throw new FetchError("Operation cancelled");
+      }
+      if (timeout.aborted) {
+        throw new FetchError(`Timed out after ${this.timeoutMs} ms fetching ${request.url}`);
+      }
+      // fetch() reports network errors as "fetch failed" with the reason in `cause`
+      const cause = error instanceof Error && error.cause instanceof Error ? `: ${error.cause.message}` : "";
+      throw new FetchError(`Cannot fetch ${url.href}: ${error instanceof Error ? error.message : String(error)}${cause}`);
+    }
+  }
+
+  // Throws FetchError when the host resolves to an address that isn't allowed.
+  // fetch() resolves the name again, so a DNS server that answers differently
+  // the second time gets past this; it keeps the model from simply asking for
+  // internal URLs.
+  private async checkAddress(url: URL) {
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    const addresses = net.isIP(host) ? [{ address: host }] : await lookup(host, { all: true });
+    for (const { address } of addresses) {
+      const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+      const ip = mapped ?? address;
+      const family = net.isIPv4(ip) ? "ipv4" : "ipv6";
+      if (!this.allowLoopback && LOOPBACK_ADDRESSES.check(ip, family)) {
+        throw new FetchError(`${url.host} is on this machine (${address}); set fetch.allowLoopback to fetch from it`);
+      }
+      if (!this.allowPrivateNetworks && PRIVATE_ADDRESSES.check(ip, family)) {
+        throw new FetchError(`${url.host} is on a private network (${address}); set fetch.allowPrivateNetworks to fetch from it`);
+      }
+    }
+  }
+
+  private readCache(key: string): Omit<FetchedPage, "fromCache"> | null {
+    try {
+      const entry = JSON.parse(fs.readFileSync(path.join(this.cacheDir, `${key}.json`), "utf8"));
+      return Date.now() - Date.parse(entry.fetchedAt) < this.cacheTtlMs ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // The cache is only an optimisation, so failing to write it is not an error
+  private writeCache(key: string, page: FetchedPage) {
+    try {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+      this.pruneCache();
+      const { fromCache, ...entry } = page;
+      fs.writeFileSync(path.join(this.cacheDir, `${key}.json`), JSON.stringify(entry));
+    } catch {}
+  }
+
+  // Drop expired entries, once per process
+  private pruneCache() {
+    if (this.pruned) {
+      return;
+    }
+    this.pruned = true;
+    for (const file of fs.readdirSync(this.cacheDir)) {
+      const full = path.join(this.cacheDir, file);
+      if (file.endsWith(".json") && Date.now() - fs.statSync(full).mtimeMs > this.cacheTtlMs) {
+        fs.rmSync(full, { force: true });
+      }
+    }
+  }
+}
+
+function parseHttpUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new FetchError(`Invalid URL: ${value}`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new FetchError(`Only http and https URLs can be fetched, not ${url.protocol}`);
+  }
+  return url;
+}
+
+function cacheKey(request: FetchRequest): string {
+  const headers = Object.entries(lowerCaseKeys(request.headers ?? {})).sort();
+  return createHash("sha256").update(JSON.stringify([request.url, headers])).digest("hex");
+}
+
+function hasCredentials(request: FetchRequest): boolean {
+  return Object.keys(lowerCaseKeys(request.headers ?? {})).some((name) => CREDENTIAL_HEADERS.includes(name));
+}
+
+function lowerCaseKeys(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+}
+
+function matchesMediaType(pattern: string, contentType: string): boolean {
+  const source = pattern.toLowerCase().split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`).test(contentType);
+}
+
+// Stop reading once the limit is reached rather than buffering the whole body
+async function readLimited(response: Response, maxBytes: number): Promise<{ bytes: Buffer; truncated: boolean }> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    if (size + value.length > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - size));
+      await reader.cancel();
+      return { bytes: Buffer.concat(chunks), truncated: true };
+    }
+    chunks.push(value);
+    size += value.length;
+  }
+  return { bytes: Buffer.concat(chunks), truncated: false };
+}
+
+// Charset from the Content-Type header, else from an HTML <meta>, else UTF-8
+function decode(bytes: Buffer, contentTypeHeader: string): string {
+  const charset = contentTypeHeader.match(/charset=["']?([\w-]+)/i)?.[1] ??
+    bytes.subarray(0, 1024).toString("latin1").match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1] ??
+    "utf-8";
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+export { UrlFetcher, FetchConfig, FetchRequest, FetchedPage, FetchError };
@@ -1,8 +1,12 @@
 import { MCPServer } from "./server"
 import { MCPClient } from "./client"
 import { ChatCLI } from "./chat"
+import { TimeOutput } from "./tools/time"
+import { loadServerConfig } from "./config"
+import { DEFAULT_AUDIT_FILE, readAuditLog, parseTime, formatAuditEntry } from "./audit"
+import * as path from "path";
 
-async function run() {
+async function run(url?: string) {
   console.log("=== MCP Hello World Demo ===\n");
 
   // Demo client usage
@@ -10,7 +14,7 @@ async function run() {
   const client = new MCPClient();
   
   try {
-    await client.connect();
+    await client.connect({ url });
     
     console.log("\nListing available tools...");
     const tools = await client.listTools();
@@ -20,32 +24,123 @@ async function run() {
     console.log("\nCalling 'say_hello' tool...");
     await client.callTool("say_hello", { name: "Alice" });
     
-    console.log("\nCalling 'get_time' tool...");
-    await client.callTool("get_time");
+    console.log("\nCalling 'get_time' tool for structured data...");
+    const time = await client.callToolData<TimeOutput>("get_time");
+    console.log(`  ${time.iso} in ${time.timezone} (UTC${time.utcOffsetMinutes >= 0 ? "+" : ""}${time.utcOffsetMinutes / 60})`);
     
-    console.log("\nCalling 'say_hello' without name...");
+    console.log("\nCalling 'say_hello' without name (rejected by schema validation)...");
     await client.callTool("say_hello");
+
+    console.log("\nCalling 'execute_bash' with streamed progress...");
+    await client.callTool("execute_bash", { command: "for i in 1 2 3; do echo step $i; sleep 0.5; done" }, {
+      onProgress: (progress) => console.log(`  progress ${progress.progress}: ${progress.message?.trim()}`),
+    });
+
+    console.log("\nCancelling a long 'execute_bash' call after 1 second...");
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 1000);
+    await client.callTool("execute_bash", { command: "sleep 20" }, { signal: controller.signal });
+
+    console.log("\nCalling 'execute_bash' and reading its output resource...");
+    await client.callTool("execute_bash", { command: "uname -a" });
+    const resources = await client.listResources();
+    const output = resources.find((resource) => resource.uri.startsWith("command-output://"));
+    if (output) {
+      console.log(await client.readResource(output.uri));
+    }
     
   } finally {
     await client.close();
   }
 }
 
+// Query the tool call audit log, e.g. audit --tool execute_bash --since 2h --failures
+function showAudit() {
+  const file = getArgValue("--file") || loadServerConfig(getArgValue("--config")).audit.file || DEFAULT_AUDIT_FILE;
+  const since = getArgValue("--since");
+  const until = getArgValue("--until");
+  const limit = Number(getArgValue("--limit") || 50);
+
+  const entries = readAuditLog(file, {
+    tool: getArgValue("--tool"),
+    since: since ? parseTime(since) : undefined,
+    until: until ? parseTime(until) : undefined,
+    failuresOnly: process.argv.includes("--failures"),
+  }).slice(-limit);
+
+  if (process.argv.includes("--json")) {
+    entries.forEach((entry) => console.log(JSON.stringify(entry)));
+    return;
+  }
+  entries.forEach((entry) => console.log(formatAuditEntry(entry)));
+  const failures = entries.filter((entry) => entry.outcome !== "ok").length;
+  console.log(`\n${entries.length} call(s), ${failures} failed or cancelled (${file})`);
+}
+
+// Read the value following a command line flag, e.g. --tools-dir ./tools
+function getArgValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
 
 // For running as separate server process:
 if (require.main === module) {
   if (process.argv[2] === "server") {
-    const server = new MCPServer();
-    server.start().catch(console.error);
+    let server: MCPServer;
+    try {
+      server = new MCPServer({
+        configFile: getArgValue("--config"),
+        toolsDir: getArgValue("--tools-dir"),
+        promptsDir: getArgValue("--prompts-dir"),
+        browser: getArgValue("--browser") ? { type: getArgValue("--browser") as "browserbase" | "local" } : undefined,
+        fsPolicy: getArgValue("--fs-roots") ? { roots: getArgValue("--fs-roots")!.split(path.delimiter) } : undefined,
+        search: {
+          // An index directory on the command line means the local index
+          type: (getArgValue("--search") || (getArgValue("--search-index") ? "local" : undefined)) as "linkup" | "local" | undefined,
+          indexDir: getArgValue("--search-index"),
+        },
+      });
+    } catch (error) {
+      console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+    server.start({
+      http: process.argv.includes("--http"),
+      port: getArgValue("--port") ? Number(getArgValue("--port")) : undefined,
+      host: getArgValue("--host"),
+      allowedHosts: getArgValue("--allowed-hosts")?.split(","),
+    }).catch(console.error);
   } else if (process.argv[2] === "client") {
-    run().catch(console.error);
+    run(getArgValue("--url") || process.env.MCP_SERVER_URL).catch(console.error);
+  } else if (process.argv[2] === "audit") {
+    try {
+      showAudit();
+    } catch (error) {
+      console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
   } else if (process.argv[2] === "chat") {
-    const chatCLI = new ChatCLI();
+    let chatCLI: ChatCLI;
+    try {
+      chatCLI = new ChatCLI({
+        serverUrl: getArgValue("--url") || process.env.MCP_SERVER_URL,
+        serversFile: getArgValue("--servers"),
+        samplingMaxTokens: getArgValue("--sampling-max-tokens") ? Number(getArgValue("--sampling-max-tokens")) : undefined,
+      });
+    } catch (error) {
+      console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
     chatCLI.start().catch(console.error);
   } else {
     console.log("Usage:");
     console.log("  npm run mcp  # Run as MCP client/server demo");
     console.log("  npm run chat # Run interactive chat CLI demo");
+    console.log("  node dist/index.js server --http --port 3000  # Serve MCP over Streamable HTTP");
+    console.log("  node dist/index.js server --config mcp-server.json  # Load tools, limits and backends from a config file");
+    console.log("  node dist/index.js client --url http://localhost:3000/mcp  # Connect to an HTTP server");
+    console.log("  node dist/index.js chat --servers mcp-servers.json  # Chat with the tools of several MCP servers");
+    console.log("  node dist/index.js audit --tool execute_bash --since 2h --failures  # Query the tool call audit log");
   }
 }
 
@@ -0,0 +1,177 @@
+import { ChildProcess } from "child_process";
+import { BashPolicy, spawnSandboxed, killProcessGroup } from "./sandbox";
+
+const DEFAULT_MAX_JOBS = 10;
+const DEFAULT_BUFFER_BYTES = 1024 * 1024;
+
+type JobStatus = "running" | "exited" | "killed";
+
+interface JobInfo {
+  id: string;
+  command: string;
+  pid?: number;
+  status: JobStatus;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  startedAt: string;
+  endedAt?: string;
+  // Total characters of output produced so far
+  outputLength: number;
+}
+
+interface OutputSlice {
+  data: string;
+  // Offset to pass on the next read
+  nextOffset: number;
+  // Characters lost to the ring buffer before the requested offset
+  dropped: number;
+}
+
+// Fixed-size buffer addressed by absolute offsets into everything ever
+// written, so readers can poll incrementally and notice what was overwritten.
+class RingBuffer {
+  private data = "";
+  private start = 0;
+
+  constructor(private capacity: number) {}
+
+  get length(): number {
+    return this.start + this.data.length;
+  }
+
+  write(chunk: string) {
+    this.data += chunk;
+    if (this.data.length > this.capacity) {
+      const excess = this.data.length - this.capacity;
+      this.data = this.data.slice(excess);
+      this.start += excess;
+    }
+  }
+
+  read(offset: number, maxLength: number): OutputSlice {
+    const from = Math.max(offset, this.start);
+    const data = this.data.slice(from - this.start, from - this.start + maxLength);
+    return {
+      data,
+      nextOffset: from + data.length,
+      dropped: from - offset > 0 ? from - offset : 0,
+    };
+  }
+}
+
+interface Job {
+  info: JobInfo;
+  child: ChildProcess;
+  output: RingBuffer;
+  killRequested: boolean;
+}
+
+interface JobManagerOptions {
+  maxJobs?: number;
+  // Ring buffer size per job (stdout and stderr interleaved)
+  bufferBytes?: number;
+}
+
+// Detached shell processes that outlive a single tool call
+class JobManager {
+  private jobs = new Map<string, Job>();
+  private nextId = 1;
+  private maxJobs: number;
+  private bufferBytes: number;
+
+  constructor(options: JobManagerOptions = {}) {
+    this.maxJobs = options.maxJobs ?? DEFAULT_MAX_JOBS;
+    this.bufferBytes = options.bufferBytes ?? DEFAULT_BUFFER_BYTES;
+  }
+
+  start(command: string, policy: BashPolicy, cwd?: string): JobInfo {
+    const running = this.list().filter((job) => job.status === "running").length;
+    if (running >= this.maxJobs) {
+      throw new Error(`Too many running jobs (${running}/${this.maxJobs}); kill one first`);
+    }
+
+    const child = spawnSandboxed(command, policy, cwd);
+    const job: Job = {
+      info: {
+        id: `job-${this.nextId++}`,
+        command,
+        pid: child.pid,
+        status: "running",
+        exitCode: null,
+        signal: null,
+        startedAt: new Date().toISOString(),
+        outputLength: 0,
+      },
+      child,
+      output: new RingBuffer(this.bufferBytes),
+      killRequested: false,
+    };
+
+    const append = (chunk: string) => {
+      job.output.write(chunk);
+      job.info.outputLength = job.output.length;
+    };
+    child.stdout!.setEncoding("utf8").on("data", append);
+    child.stderr!.setEncoding("utf8").on("data", append);
+    child.on("error", (error) => append(`\n[job error: ${error.message}]\n`));
+    child.on("close", (exitCode, signal) => {
+      job.info.status = job.killRequested ? "killed" : "exited";
+      job.info.exitCode = exitCode;
+      job.info.signal = signal;
+      job.info.endedAt = new Date().toISOString();
+    });
+
+    this.jobs.set(job.info.id, job);
+    this.pruneFinished();
+    return { ...job.info };
+  }
+
+  get(id: string): JobInfo {
+    return { ...this.find(id).info };
+  }
+
+  list(): JobInfo[] {
+    return Array.from(this.jobs.values()).map((job) => ({ ...job.info }));
+  }
+
+  readOutput(id: string, offset: number, maxLength: number): OutputSlice {
+    return this.find(id).output.read(offset, maxLength);
+  }
+
+  kill(id: string, signal: NodeJS.Signals = "SIGTERM"): JobInfo {
+    const job = this.find(id);
+    if (job.info.status === "running") {
+      job.killRequested = true;
+      killProcessGroup(job.child, signal);
+    }
+    return { ...job.info };
+  }
+
+  // Kill every running job; safe to call from an exit handler
+  shutdown() {
+    for (const job of this.jobs.values()) {
+      if (job.info.status === "running") {
+        job.killRequested = true;
+        killProcessGroup(job.child, "SIGKILL");
+      }
+    }
+  }
+
+  // Forget the oldest finished jobs so their buffers don't pile up
+  private pruneFinished() {
+    const finished = Array.from(this.jobs.values()).filter((job) => job.info.status !== "running");
+    for (const job of finished.slice(0, Math.max(0, finished.length - this.maxJobs))) {
+      this.jobs.delete(job.info.id);
+    }
+  }
+
+  private find(id: string): Job {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`Unknown job: ${id}`);
+    }
+    return job;
+  }
+}
+
+export { JobManager, JobManagerOptions, JobInfo, OutputSlice, RingBuffer };
@@ -0,0 +1,108 @@
+// Cleanup that has to happen however the process ends: a signal, the other end
+// of stdio going away, an uncaught error or a plain process.exit. Steps run
+// once, in the order they were added, each with a time limit so one hung step
+// (say an unreachable browser service) can't keep the process alive.
+
+interface CleanupStep {
+  name: string;
+  run: () => void | Promise<void>;
+}
+
+interface LifecycleOptions {
+  // Where progress and failures are reported (stderr by default)
+  log?: (...args: any[]) => void;
+  // Per-step time limit
+  stepTimeoutMs?: number;
+}
+
+const DEFAULT_STEP_TIMEOUT_MS = 5000;
+
+class Lifecycle {
+  private steps: CleanupStep[] = [];
+  private done = new Set<string>();
+  private shuttingDown: Promise<void> | null = null;
+  private log: (...args: any[]) => void;
+  private stepTimeoutMs: number;
+
+  constructor(options: LifecycleOptions = {}) {
+    this.log = options.log ?? ((...args: any[]) => console.error(...args));
+    this.stepTimeoutMs = options.stepTimeoutMs ?? DEFAULT_STEP_TIMEOUT_MS;
+  }
+
+  onShutdown(name: string, run: () => void | Promise<void>) {
+    this.steps.push({ name, run });
+  }
+
+  get isShuttingDown(): boolean {
+    return this.shuttingDown !== null;
+  }
+
+  // Run every step; calling it again returns the same promise
+  shutdown(reason: string): Promise<void> {
+    if (!this.shuttingDown) {
+      this.shuttingDown = this.runSteps(reason);
+    }
+    return this.shuttingDown;
+  }
+
+  // Shut down, then end the process
+  async exit(reason: string, code = 0): Promise<never> {
+    await this.shutdown(reason);
+    process.exit(code);
+  }
+
+  // Exit cleanly on these signals, and on crashes with code 1. On a bare
+  // process.exit only the synchronous part of each remaining step gets to run
+  // (e.g. killing child processes), which is still better than nothing.
+  handleProcessEvents(signals: NodeJS.Signals[] = ["SIGINT", "SIGTERM", "SIGHUP"]) {
+    for (const signal of signals) {
+      process.once(signal, () => {
+        this.exit(`received ${signal}`);
+      });
+    }
+    process.once("uncaughtException", (error) => {
+      this.log("❌ Uncaught exception:", error);
+      this.exit("uncaught exception", 1);
+    });
+    process.once("unhandledRejection", (error) => {
+      this.log("❌ Unhandled promise rejection:", error);
+      this.exit("unhandled promise rejection", 1);
+    });
+    process.once("exit", () => {
+      for (const step of this.steps) {
+        if (!this.done.has(step.name)) {
+          this.done.add(step.name);
+          try {
+            Promise.resolve(step.run()).catch(() => {});
+          } catch {}
+        }
+      }
+    });
+  }
+
+  private async runSteps(reason: string) {
+    this.log(`🛑 Shutting down (${reason})`);
+    for (const step of this.steps) {
+      if (this.done.has(step.name)) {
+        continue;
+      }
+      this.done.add(step.name);
+      let timer: NodeJS.Timeout | undefined;
+      try {
+        await Promise.race([
+          Promise.resolve().then(step.run),
+          new Promise((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`timed out after ${this.stepTimeoutMs} ms`)), this.stepTimeoutMs);
+            timer.unref();
+          }),
+        ]);
+      } catch (error) {
+        this.log(`⚠️  Cleanup step "${step.name}" failed:`, error instanceof Error ? error.message : String(error));
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+}
+
+export { Lifecycle, LifecycleOptions };
@@ -1,30 +1,132 @@
-import { MCPClient } from "./client";
-import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { LogSink } from "./client";
+import { ServerPool, ServerStatus, ServerStateHandler, McpServersConfig, loadServersConfig } from "./servers";
+import {
+  Tool,
+  CallToolResult,
+  LoggingLevel,
+  CreateMessageRequest,
+  CreateMessageResult,
+  ElicitRequest,
+  ElicitResult,
+} from "@modelcontextprotocol/sdk/types.js";
 import Anthropic from '@anthropic-ai/sdk';
+import { ApprovalPolicy, ApprovalHandler, ApprovalRule, SamplingApprovalHandler } from "./approval";
+
+interface LLMOptions {
+  // Connect to an MCP server running in HTTP mode instead of spawning one
+  serverUrl?: string;
+  // The MCP servers to use; read from serversFile (see loadServersConfig) when unset
+  servers?: McpServersConfig;
+  serversFile?: string;
+  // Where the server's log messages go (stderr by default)
+  logSink?: LogSink;
+  // Told when a server's connection is lost, reconnects or is given up on;
+  // the tools offered to Claude follow on their own
+  onServerStateChange?: ServerStateHandler;
+  // Asked before tool calls that need approval; without it those calls are denied
+  approve?: ApprovalHandler;
+  // Where "always allow" rules are kept (.mcp-approvals.json in the working directory by default)
+  approvalsFile?: string;
+  // Asked before the server gets to use Claude (MCP sampling); without it
+  // sampling requests are rejected
+  approveSampling?: SamplingApprovalHandler;
+  // Most tokens a sampling answer may use, whatever the server asks for
+  samplingMaxTokens?: number;
+  // Asks the user for input a server tool needs (MCP elicitation); without it
+  // the client doesn't offer elicitation and tools fall back on other means
+  elicit?: ElicitationHandler;
+}
+
+// A server asking the user for input, usually from inside a tool call
+interface ElicitationRequest {
+  // The tool call that was running when the request came in, if any
+  tool?: string;
+  params: ElicitRequest["params"];
+}
+
+// Resolves to the user's answer: accept with content, reject or cancel
+type ElicitationHandler = (request: ElicitationRequest, signal?: AbortSignal) => Promise<ElicitResult>;
 
 interface MCPToolResult {
   tool: string;
   result: string;
 }
 
+type ToolResultContent = Anthropic.Messages.TextBlockParam | Anthropic.Messages.ImageBlockParam;
+
+// Thrown by the process* methods when their signal is aborted mid-turn
+class TurnCancelled extends Error {
+  constructor() {
+    super("Turn cancelled");
+  }
+}
+
+// Sent back for a sampling request the user rejected, with the code the MCP
+// spec suggests. Not an McpError, whose "MCP error" message prefix the server
+// side would add a second time.
+class SamplingRejected extends Error {
+  readonly code = -1;
+}
+
+const DEFAULT_SAMPLING_MAX_TOKENS = 4096;
+
+// Image formats Claude accepts
+const SUPPORTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+
 class LLM {
-  private mcpClient: MCPClient;
+  private servers: ServerPool;
   private availableTools: Tool[] = [];
   private anthropic: Anthropic;
   private conversationHistory: Anthropic.Messages.MessageParam[] = [];
   private systemPrompt: string = "";
   private verboseLogging: boolean = true;
-
-  constructor(apiKey: string) {
-    this.mcpClient = new MCPClient();
+  private approvals: ApprovalPolicy;
+  private approve?: ApprovalHandler;
+  private approveSampling?: SamplingApprovalHandler;
+  // Servers the user allowed to sample for the rest of the session
+  private samplingAllowed = new Set<string>();
+  private samplingMaxTokens: number;
+  // Tool call in progress, shown when the server asks to sample or elicit during it
+  private activeTool?: string;
+
+  constructor(apiKey: string, options: LLMOptions = {}) {
+    this.servers = new ServerPool(options.servers ??
+      (options.serverUrl ? { remote: { url: options.serverUrl } } : loadServersConfig(options.serversFile)));
+    if (options.logSink) {
+      this.servers.setLogSink(options.logSink);
+    }
+    this.servers.setConnectionStateHandler((server, event) => {
+      if (this.systemPrompt && (event.tools || event.state === "failed")) {
+        this.availableTools = this.servers.listTools();
+        this.systemPrompt = this.buildSystemPrompt();
+      }
+      options.onServerStateChange?.(server, event);
+    });
+    this.approvals = new ApprovalPolicy(options.approvalsFile);
+    this.approve = options.approve;
+    this.approveSampling = options.approveSampling;
+    this.samplingMaxTokens = options.samplingMaxTokens ?? DEFAULT_SAMPLING_MAX_TOKENS;
     this.anthropic = new Anthropic({
       apiKey: apiKey,
     });
+    this.servers.setSamplingHandler((server, params, signal) => this.createSamplingMessage(server, params, signal));
+    if (options.elicit) {
+      const elicit = options.elicit;
+      this.servers.setElicitationHandler((params, signal) => elicit({ tool: this.activeTool, params }, signal));
+    }
   }
 
+  // Connect to every configured server. Servers that fail are reported and
+  // skipped; it only fails when none is left.
   async initialize() {
-    await this.mcpClient.connect();
-    this.availableTools = await this.mcpClient.listTools();
+    const failed = await this.servers.connect();
+    for (const server of failed) {
+      console.error(`⚠️  MCP server ${server.name} (${server.target}) is unavailable: ${server.error}`);
+    }
+    if (failed.length === this.servers.size) {
+      throw new Error("None of the configured MCP servers could be connected");
+    }
+    this.availableTools = this.servers.listTools();
     this.systemPrompt = this.buildSystemPrompt();
   }
 
@@ -46,12 +148,6 @@ class LLM {
 Available tools:
 ${toolDescriptions}
 
-IMPORTANT LOGGING INSTRUCTIONS:
-- Use the get_logging_mode tool to check the current logging setting
-- If logging mode is "verbose": Show detailed steps, tool executions, and reasoning process
-- If logging mode is "quiet": Provide only the final answer without showing intermediate steps
-- Users can change the logging mode with set_logging_mode tool
-
 Use tools when appropriate to answer user questions. You can call multiple tools in sequence if needed.`;
   }
 
@@ -74,9 +170,6 @@ Use tools when appropriate to answer user questions. You can call multiple tools
   }
 
   async processMessage(userMessage: string): Promise<string> {
-    // Check current logging mode from server
-    await this.syncLoggingMode();
-    
     this.log(`\n🤖 Processing: "${userMessage}"`);
     
     // Add user message to conversation
@@ -133,26 +226,20 @@ Use tools when appropriate to answer user questions. You can call multiple tools
           this.log(`🔧 Claude wants to use tool: ${toolUse.name} with args:`, toolUse.input);
           
           // Call the MCP tool
-          const mcpResult = await this.mcpClient.callTool(toolUse.name, toolUse.input);
-          
-          let toolResultText = "No result";
-          if (mcpResult && mcpResult.content) {
-            toolResultText = mcpResult.content
-              .filter(c => c.type === 'text')
-              .map(c => c.text)
-              .join('\n');
-          }
+          const mcpResult = await this.callApprovedTool(toolUse.name, toolUse.input);
+          const toolResultContent = this.toToolResultContent(mcpResult);
 
           toolResults.push({
             tool: toolUse.name,
-            result: toolResultText
+            result: this.describeToolResult(toolResultContent)
           });
 
           // Add tool result for this specific tool use
           toolResultsForMessage.push({
             type: "tool_result",
             tool_use_id: toolUse.id,
-            content: toolResultText
+            content: toolResultContent,
+            is_error: mcpResult?.isError === true
           });
         }
 
@@ -273,20 +360,13 @@ Use tools when appropriate to answer user questions. You can call multiple tools
         
         for (const toolCall of toolCalls) {
           console.log(`📞 Executing tool: ${toolCall.name}`);
-          const mcpResult = await this.mcpClient.callTool(toolCall.name, toolCall.input);
-          
-          let toolResultText = "No result";
-          if (mcpResult && mcpResult.content) {
-            toolResultText = mcpResult.content
-              .filter(c => c.type === 'text')
-              .map(c => c.text)
-              .join('\n');
-          }
+          const mcpResult = await this.callApprovedTool(toolCall.name, toolCall.input);
 
           toolResults.push({
             type: "tool_result",
             tool_use_id: toolCall.id,
-            content: toolResultText
+            content: this.toToolResultContent(mcpResult),
+            is_error: mcpResult?.isError === true
           });
         }
 
@@ -343,10 +423,9 @@ Use tools when appropriate to answer user questions. You can call multiple tools
   }
 
   // Method to handle multi-turn tool conversations
-  async processComplexQuery(userMessage: string, maxToolRounds: number = 3): Promise<string> {
-    // Check current logging mode from server
-    await this.syncLoggingMode();
-    
+  // Aborting `signal` stops waiting for Claude, cancels the running tool call
+  // and rejects with TurnCancelled
+  async processComplexQuery(userMessage: string, maxToolRounds: number = 3, signal?: AbortSignal): Promise<string> {
     this.log(`\n🤖 Processing complex query: "${userMessage}"`);
     
     this.conversationHistory.push({
@@ -354,6 +433,36 @@ Use tools when appropriate to answer user questions. You can call multiple tools
       content: userMessage
     });
 
+    return this.runToolRounds(maxToolRounds, signal);
+  }
+
+  // List the prompt templates offered by the MCP servers
+  async listPrompts() {
+    return this.servers.listPrompts();
+  }
+
+  // Fill in a server prompt template, add its messages to the conversation and
+  // let Claude work on it like any other query
+  async processPrompt(name: string, args: Record<string, string> = {}, maxToolRounds: number = 3, signal?: AbortSignal): Promise<string> {
+    const prompt = await this.servers.getPrompt(name, args);
+    this.log(`\n🤖 Processing prompt "${name}" with args:`, args);
+
+    for (const message of prompt.messages) {
+      if (message.content.type !== 'text') {
+        this.log(`⚠️  Skipping non-text ${message.content.type} content in prompt "${name}"`);
+        continue;
+      }
+      this.conversationHistory.push({
+        role: message.role,
+        content: message.content.text
+      });
+    }
+
+    return this.runToolRounds(maxToolRounds, signal);
+  }
+
+  // Run Claude against the current history, executing tool calls until it answers
+  private async runToolRounds(maxToolRounds: number, signal?: AbortSignal): Promise<string> {
     let currentRound = 0;
     let finalResponse = "";
 
@@ -372,7 +481,7 @@ Use tools when appropriate to answer user questions. You can call multiple tools
           system: this.systemPrompt,
           messages: cleanHistory,
           tools: tools.length > 0 ? tools : undefined,
-        });
+        }, { signal });
 
         let hasToolCalls = false;
         const toolResults = [];
@@ -387,31 +496,17 @@ Use tools when appropriate to answer user questions. You can call multiple tools
             this.log(`🔧 Round ${currentRound + 1} - Tool: ${content.name} with args:`, content.input);
             
             try {
-              const mcpResult = await this.mcpClient.callTool(content.name, content.input);
-              let toolResultText = "No result";
-              
-              if (mcpResult && mcpResult.content) {
-                const resultTexts = mcpResult.content
-                  .filter(c => c.type === 'text')
-                  .map(c => c.text)
-                  .filter(text => text && text.trim().length > 0);
-                
-                if (resultTexts.length > 0) {
-                  toolResultText = resultTexts.join('\n');
-                }
-              }
-
-              // Ensure we have non-empty result text
-              if (!toolResultText || toolResultText.trim().length === 0) {
-                toolResultText = "Tool executed successfully but returned no content";
-              }
-
-              this.log(`✅ Round ${currentRound + 1} - Tool ${content.name} result: ${toolResultText.substring(0, 200)}...`);
+              const mcpResult = await this.callApprovedTool(content.name, content.input, signal);
+              const toolResultContent = this.toToolResultContent(mcpResult);
 
+              this.log(`✅ Round ${currentRound + 1} - Tool ${content.name} result: ${this.describeToolResult(toolResultContent).substring(0, 200)}...`);
+
+              // Validation failures come back with isError so Claude can correct its call
               toolResults.push({
                 type: "tool_result",
                 tool_use_id: content.id,
-                content: toolResultText
+                content: toolResultContent,
+                is_error: mcpResult?.isError === true
               });
             } catch (error) {
               this.log(`❌ Round ${currentRound + 1} - Tool ${content.name} failed:`, error);
@@ -421,6 +516,9 @@ Use tools when appropriate to answer user questions. You can call multiple tools
                 content: `Error executing tool: ${error instanceof Error ? error.message : String(error)}`
               });
             }
+            if (signal?.aborted) {
+              throw new TurnCancelled();
+            }
           }
         }
 
@@ -448,14 +546,183 @@ Use tools when appropriate to answer user questions. You can call multiple tools
       return finalResponse;
 
     } catch (error) {
+      if (signal?.aborted) {
+        throw new TurnCancelled();
+      }
       console.error('Error in complex query:', error);
       return "I'm sorry, I encountered an error processing your complex request.";
     }
   }
 
-  // Method to set logging mode
+  // Run a tool call Claude asked for, checking the approval policy first. A
+  // denial becomes an error result so Claude learns why the call didn't happen.
+  private async callApprovedTool(name: string, input: any, signal?: AbortSignal): Promise<CallToolResult | undefined> {
+    const args = input ?? {};
+    const tool = this.availableTools.find(t => t.name === name);
+    const trusted = this.servers.isTrusted(name);
+    if (tool && this.approvals.needsApproval(tool, args, trusted)) {
+      if (!this.approve) {
+        return this.deniedResult(name, "it needs approval and there is no one to ask");
+      }
+
+      const response = await this.approve(this.approvals.request(tool, args, trusted), signal);
+      if (response.decision === 'deny') {
+        this.log(`🚫 User denied ${name}`);
+        return this.deniedResult(name, response.reason);
+      }
+      if (response.decision === 'allow_always') {
+        this.approvals.allowAlways({ tool: name, ...(response.pattern ? { pattern: response.pattern } : {}) });
+      }
+    }
+    if (signal?.aborted) {
+      return undefined;
+    }
+    this.activeTool = name;
+    try {
+      return await this.servers.callTool(name, args, { signal });
+    } finally {
+      this.activeTool = undefined;
+    }
+  }
+
+  // Answer a server's sampling/createMessage request with Claude once the user
+  // agrees. The request's own system prompt and messages are used, without any
+  // of this conversation; model preferences and includeContext are ignored.
+  private async createSamplingMessage(server: string, params: CreateMessageRequest["params"], signal: AbortSignal): Promise<CreateMessageResult> {
+    const maxTokens = Math.min(params.maxTokens, this.samplingMaxTokens);
+    if (!this.samplingAllowed.has(server)) {
+      if (!this.approveSampling) {
+        throw new SamplingRejected("Sampling request rejected: there is no user to approve it");
+      }
+      const response = await this.approveSampling({ server, tool: this.activeTool, params, maxTokens }, signal);
+      if (response.decision === 'deny') {
+        this.log(`🚫 User rejected a sampling request`);
+        throw new SamplingRejected(`User rejected sampling request${response.reason ? `: ${response.reason}` : ""}`);
+      }
+      if (response.decision === 'allow_always') {
+        this.samplingAllowed.add(server);
+      }
+    }
+
+    const messages: Anthropic.Messages.MessageParam[] = params.messages.map((message) => {
+      const content = message.content;
+      if (content.type === 'text') {
+        return { role: message.role, content: content.text };
+      }
+      if (content.type === 'image') {
+        return { role: message.role, content: [this.toImageBlock(content.data, content.mimeType, "image")] };
+      }
+      throw new Error(`Sampling with ${content.type} content is not supported`);
+    });
+
+    this.log(`🧠 Sampling for ${server} (up to ${maxTokens} tokens)`);
+    const response = await this.anthropic.messages.create({
+      model: "claude-3-5-sonnet-20241022",
+      max_tokens: maxTokens,
+      system: params.systemPrompt,
+      temperature: params.temperature,
+      stop_sequences: params.stopSequences,
+      messages,
+    }, { signal });
+
+    const stopReasons: Record<string, string> = { end_turn: "endTurn", max_tokens: "maxTokens", stop_sequence: "stopSequence" };
+    return {
+      role: "assistant",
+      content: {
+        type: "text",
+        text: response.content.map((block) => block.type === 'text' ? block.text : '').join(''),
+      },
+      model: response.model,
+      stopReason: response.stop_reason ? stopReasons[response.stop_reason] ?? response.stop_reason : undefined,
+    };
+  }
+
+  private deniedResult(name: string, reason?: string): CallToolResult {
+    return {
+      content: [{
+        type: "text",
+        text: `The call to ${name} was denied ${reason ? `(${reason})` : "by the user"} and was not run. Don't retry it; ask the user how to proceed instead.`,
+      }],
+      isError: true,
+    };
+  }
+
+  // "Always allow" rules saved for this project
+  listApprovalRules(): ApprovalRule[] {
+    return this.approvals.list();
+  }
+
+  clearApprovalRules() {
+    this.approvals.clear();
+  }
+
+  // Convert MCP tool output into tool_result content. Text-only results stay a
+  // plain string; images and embedded resources become image/text blocks so
+  // Claude can actually see screenshots and other artifacts.
+  private toToolResultContent(mcpResult: CallToolResult | undefined): string | ToolResultContent[] {
+    if (!mcpResult || !mcpResult.content) {
+      return "No result";
+    }
+
+    const blocks: ToolResultContent[] = [];
+    for (const item of mcpResult.content) {
+      if (item.type === 'text') {
+        if (item.text.trim().length > 0) {
+          blocks.push({ type: "text", text: item.text });
+        }
+      } else if (item.type === 'image') {
+        blocks.push(this.toImageBlock(item.data, item.mimeType, "image"));
+      } else if (item.type === 'resource') {
+        const resource = item.resource;
+        if (typeof resource.text === 'string') {
+          blocks.push({ type: "text", text: `Resource ${resource.uri}:\n${resource.text}` });
+        } else if (typeof resource.blob === 'string' && resource.mimeType?.startsWith('image/')) {
+          blocks.push(this.toImageBlock(resource.blob, resource.mimeType, resource.uri));
+        } else {
+          blocks.push({ type: "text", text: `[Binary resource ${resource.uri} (${resource.mimeType || 'unknown type'}) not shown]` });
+        }
+      } else {
+        blocks.push({ type: "text", text: `[Unsupported ${item.type} content not shown]` });
+      }
+    }
+
+    if (blocks.length === 0) {
+      return "Tool executed successfully but returned no content";
+    }
+    if (blocks.every(block => block.type === 'text')) {
+      return blocks.map(block => (block as Anthropic.Messages.TextBlockParam).text).join('\n');
+    }
+    return blocks;
+  }
+
+  private toImageBlock(data: string, mimeType: string, label: string): ToolResultContent {
+    if (!SUPPORTED_IMAGE_TYPES.includes(mimeType)) {
+      return { type: "text", text: `[${label}: ${mimeType} images are not supported by Claude]` };
+    }
+    return {
+      type: "image",
+      source: {
+        type: "base64",
+        media_type: mimeType as Anthropic.Messages.Base64ImageSource['media_type'],
+        data,
+      },
+    };
+  }
+
+  // Text form of a tool result for logs
+  private describeToolResult(content: string | ToolResultContent[]): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+    return content
+      .map(block => block.type === 'text' ? block.text : `[image ${block.source.type === 'base64' ? block.source.media_type : 'url'}]`)
+      .join('\n');
+  }
+
+  // Local debug output of this process; doesn't touch the server
   setVerboseLogging(verbose: boolean) {
     this.verboseLogging = verbose;
+    this.servers.setVerboseLogging(verbose);
   }
 
   // Method to get logging mode
@@ -470,32 +737,14 @@ Use tools when appropriate to answer user questions. You can call multiple tools
     }
   }
 
-  // Sync logging mode with server (public version for external access)
-  async syncLoggingModePublic() {
-    return this.syncLoggingMode();
+  // Minimum severity of the log messages the server sends us
+  async setServerLogLevel(level: LoggingLevel): Promise<boolean> {
+    return this.servers.setServerLogLevel(level);
   }
 
-  // Sync logging mode with server
-  private async syncLoggingMode() {
-    try {
-      const result = await this.mcpClient.callTool("get_logging_mode", {});
-      if (result && result.content && result.content.length > 0) {
-        const response = result.content[0].text as string;
-        if (response && typeof response === 'string') {
-          if (response.includes("verbose")) {
-            this.verboseLogging = true;
-          } else if (response.includes("quiet")) {
-            this.verboseLogging = false;
-          }
-          // Also sync the client logging
-          this.mcpClient.setVerboseLogging(this.verboseLogging);
-        }
-      }
-    } catch (error) {
-      // If we can't get logging mode, default to verbose
-      this.verboseLogging = true;
-      this.mcpClient.setVerboseLogging(true);
-    }
+  // Every configured server, connected or not
+  serverStatus(): ServerStatus[] {
+    return this.servers.status();
   }
 
   // Method to clear conversation history
@@ -517,6 +766,9 @@ Use tools when appropriate to answer user questions. You can call multiple tools
         if (content.type === 'text') {
           return content.text && content.text.trim().length > 0;
         } else if (content.type === 'tool_result') {
+          if (Array.isArray(content.content)) {
+            return content.content.length > 0;
+          }
           return content.content && typeof content.content === 'string' && content.content.trim().length > 0;
         } else if (content.type === 'tool_use') {
           return content.name && content.name.trim().length > 0;
@@ -551,9 +803,9 @@ Use tools when appropriate to answer user questions. You can call multiple tools
   }
 
   async shutdown() {
-    await this.mcpClient.close();
+    await this.servers.close();
   }
 }
 
-export { LLM };
+export { LLM, LLMOptions, TurnCancelled, ElicitationRequest, ElicitationHandler };
 
@@ -0,0 +1,403 @@
+// HTML to Markdown for fetch_url. A small forgiving parser builds an element
+// tree (real pages are rarely valid HTML) which is then rendered as Markdown,
+// either whole or just the main content without navigation and page chrome.
+
+interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+interface MarkdownOptions {
+  // Absolute URL of the page, to resolve relative links and images against
+  baseUrl?: string;
+  // Keep only <main>, or failing that the largest <article>, and drop
+  // navigation, headers, footers, sidebars and forms
+  mainContent?: boolean;
+}
+
+interface ConvertedPage {
+  title: string;
+  markdown: string;
+}
+
+const VOID_TAGS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr"]);
+// Elements whose content is not markup
+const RAW_TEXT_TAGS = new Set(["script", "style", "textarea", "title"]);
+// Never rendered
+const SKIPPED_TAGS = new Set(["head", "script", "style", "noscript", "template", "svg", "canvas", "iframe", "object", "button", "input", "select", "textarea", "option"]);
+// Dropped in main content mode
+const BOILERPLATE_TAGS = new Set(["nav", "header", "footer", "aside", "form", "dialog"]);
+// Matched against each class name and the id on their own, so "has-sidebar" on
+// a content wrapper doesn't count
+const BOILERPLATE_NAME = /^(site-|page-|global-)?(nav|navbar|navigation|menu|sidebar|header|footer|breadcrumbs?|cookies?|cookie-banner|banner|ads?|advert|advertisement|social|share|sharing|related|comments?)$/i;
+const BLOCK_TAGS = new Set([
+  "address", "article", "aside", "blockquote", "body", "center", "details", "dialog", "dd", "div", "dl", "dt",
+  "fieldset", "figcaption", "figure", "footer", "form", "h1", "h2", "h3", "h4", "h5", "h6", "header", "hr", "html",
+  "li", "main", "nav", "ol", "p", "pre", "section", "summary", "table", "ul",
+]);
+// An open element of these kinds ends when one of the keys starts, e.g. <li>a<li>b
+const IMPLIED_END: Record<string, string[]> = {
+  li: ["li"],
+  dt: ["dt", "dd"],
+  dd: ["dt", "dd"],
+  tr: ["tr", "td", "th"],
+  td: ["td", "th"],
+  th: ["td", "th"],
+  option: ["option"],
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ", copy: "©", reg: "®", trade: "™",
+  hellip: "…", mdash: "—", ndash: "–", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”",
+  laquo: "«", raquo: "»", bull: "•", middot: "·", times: "×", deg: "°", euro: "€", pound: "£",
+};
+
+// Deeper elements are flattened into the one at this depth, which keeps the
+// recursive rendering below off the end of the call stack
+const MAX_DEPTH = 256;
+
+// Pages are untrusted, so this has to stay linear: every attribute starts after
+// whitespace or a closing quote, which leaves one way to split a tag's
+// attributes, and nothing but a quoted value runs past a "<", so an unclosed
+// tag is only scanned up to the next one. Unclosed comments and CDATA sections
+// run to the end of the page rather than being looked for again at every "<".
+const TOKEN = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[([\s\S]*?)(?:\]\]>|$)|<[!?][^<>]*>|<\/([a-zA-Z][\w:-]*)[^<>]*>|<([a-zA-Z][\w:-]*)((?:(?:\s+|(?<=["']))[^\s"'<>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+const ATTRIBUTE = /([^\s"'<>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: "#root", attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  // How many elements of each tag are open, so a stray close tag is ignored
+  // without searching the stack
+  const open = new Map<string, number>();
+  const current = () => stack[stack.length - 1];
+  const push = (element: HtmlElement) => {
+    stack.push(element);
+    open.set(element.tag, (open.get(element.tag) ?? 0) + 1);
+  };
+  const pop = () => {
+    const tag = stack.pop()!.tag;
+    open.set(tag, open.get(tag)! - 1);
+  };
+  const addText = (text: string) => {
+    if (text) current().children.push(decodeEntities(text));
+  };
+
+  // For finding the end of raw text elements like <script>
+  const lowerCase = html.toLowerCase();
+  TOKEN.lastIndex = 0;
+  let position = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN.exec(html))) {
+    addText(html.slice(position, match.index));
+    position = TOKEN.lastIndex;
+    const [, cdata, closeTag, openTag, attributes, selfClosing] = match;
+
+    if (cdata !== undefined) {
+      current().children.push(cdata);
+    } else if (closeTag) {
+      const tag = closeTag.toLowerCase();
+      if (open.get(tag)) {
+        while (current().tag !== tag) {
+          pop();
+        }
+        pop();
+      }
+    } else if (openTag) {
+      const tag = openTag.toLowerCase();
+      while (stack.length > 1 && (
+        (current().tag === "p" && BLOCK_TAGS.has(tag)) || IMPLIED_END[tag]?.includes(current().tag)
+      )) {
+        pop();
+      }
+      const container = !VOID_TAGS.has(tag) && !selfClosing && !RAW_TEXT_TAGS.has(tag);
+      if (container && stack.length > MAX_DEPTH) {
+        continue;
+      }
+
+      const element: HtmlElement = { tag, attrs: parseAttributes(attributes), children: [] };
+      current().children.push(element);
+      if (RAW_TEXT_TAGS.has(tag)) {
+        const end = lowerCase.indexOf(`</${tag}`, position);
+        const text = html.slice(position, end === -1 ? html.length : end);
+        if (tag === "title" || tag === "textarea") {
+          element.children.push(decodeEntities(text));
+        }
+        position = end === -1 ? html.length : html.indexOf(">", end) + 1 || html.length;
+        TOKEN.lastIndex = position;
+      } else if (container) {
+        push(element);
+      }
+    }
+  }
+  addText(html.slice(position));
+  return root;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function isElement(node: HtmlNode): node is HtmlElement {
+  return typeof node !== "string";
+}
+
+function findAll(element: HtmlElement, predicate: (element: HtmlElement) => boolean, found: HtmlElement[] = []): HtmlElement[] {
+  for (const child of element.children) {
+    if (isElement(child)) {
+      if (predicate(child)) {
+        found.push(child);
+      }
+      findAll(child, predicate, found);
+    }
+  }
+  return found;
+}
+
+// Drop spaces and tabs from the end of the text made up of `parts`
+function trimTrailingBlanks(parts: string[]) {
+  while (parts.length > 0) {
+    const trimmed = parts[parts.length - 1].replace(/[ \t]+$/, "");
+    if (trimmed) {
+      parts[parts.length - 1] = trimmed;
+      return;
+    }
+    parts.pop();
+  }
+}
+
+function textContent(node: HtmlNode): string {
+  return isElement(node) ? node.children.map(textContent).join("") : node;
+}
+
+// <main>, else the article with the most text, else the whole body
+function findMainContent(root: HtmlElement): HtmlElement {
+  const main = findAll(root, (element) => element.tag === "main" || element.attrs.role === "main")[0];
+  if (main) {
+    return main;
+  }
+  const articles = findAll(root, (element) => element.tag === "article");
+  if (articles.length > 0) {
+    const lengths = articles.map((article) => textContent(article).length);
+    const longest = lengths.reduce((best, length, index) => length > lengths[best] ? index : best, 0);
+    return articles[longest];
+  }
+  return findAll(root, (element) => element.tag === "body")[0] ?? root;
+}
+
+// Renders an element tree. Block elements go on lines of their own with a
+// blank line around them, inline ones run on within the surrounding text.
+class MarkdownRenderer {
+  constructor(private baseUrl?: string, private skipBoilerplate = false) {}
+
+  render(element: HtmlElement): string {
+    return this.children(element)
+      .split("\n")
+      .map((line) => line.replace(/\s+$/, ""))
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
+  // Collected in parts and joined once: looking at the end of a string that is
+  // being appended to makes V8 copy it every time
+  private children(element: HtmlElement): string {
+    const parts: string[] = [];
+    for (const child of element.children) {
+      const piece = this.node(child);
+      if (!piece.text) {
+        continue;
+      }
+      const last = parts[parts.length - 1];
+      let text: string;
+      if (piece.block) {
+        trimTrailingBlanks(parts);
+        text = `\n\n${piece.text}\n\n`;
+      } else if (last === undefined || last.endsWith("\n")) {
+        text = piece.text.replace(/^[ \t]+/, "");
+      } else {
+        text = last.endsWith(" ") ? piece.text.replace(/^ +/, "") : piece.text;
+      }
+      if (text) {
+        parts.push(text);
+      }
+    }
+    return parts.join("");
+  }
+
+  private node(node: HtmlNode): { text: string; block: boolean } {
+    if (!isElement(node)) {
+      return { text: node.replace(/\s+/g, " "), block: false };
+    }
+    if (SKIPPED_TAGS.has(node.tag) || (this.skipBoilerplate && this.isBoilerplate(node))) {
+      return { text: "", block: false };
+    }
+
+    const block = (text: string) => ({ text: text.trim(), block: true });
+    const inline = (text: string) => ({ text, block: false });
+
+    switch (node.tag) {
+      case "h1": case "h2": case "h3": case "h4": case "h5": case "h6": {
+        const text = oneLine(this.children(node));
+        return block(text ? `${"#".repeat(Number(node.tag[1]))} ${text}` : "");
+      }
+      case "br":
+        return inline("\n");
+      case "hr":
+        return block("---");
+      case "pre":
+        // Not trimmed: leading indentation is part of the code
+        return { text: this.codeBlock(node), block: true };
+      case "blockquote": {
+        const text = this.children(node).trim().replace(/\n{3,}/g, "\n\n");
+        return block(text.split("\n").map((line) => line ? `> ${line}` : ">").join("\n"));
+      }
+      case "ul":
+      case "ol":
+        return block(this.list(node));
+      case "li":
+        return block(`- ${this.children(node).trim()}`);
+      case "table":
+        return block(this.table(node));
+      case "dt":
+        return block(emphasize(oneLine(this.children(node)), "**"));
+      case "a":
+        return inline(this.link(node));
+      case "img":
+        return inline(this.image(node));
+      case "strong": case "b":
+        return inline(emphasize(this.children(node), "**"));
+      case "em": case "i":
+        return inline(emphasize(this.children(node), "*"));
+      case "del": case "s": case "strike":
+        return inline(emphasize(this.children(node), "~~"));
+      case "code": case "kbd": case "samp": {
+        const code = textContent(node).replace(/\s+/g, " ");
+        const fence = code.includes("`") ? "``" : "`";
+        return inline(code.trim() ? `${fence}${code}${fence}` : "");
+      }
+      default:
+        return BLOCK_TAGS.has(node.tag) ? block(this.children(node)) : inline(this.children(node));
+    }
+  }
+
+  // Elements that look like navigation or page furniture, by tag, role or class
+  private isBoilerplate(element: HtmlElement): boolean {
+    return BOILERPLATE_TAGS.has(element.tag) ||
+      ["navigation", "banner", "contentinfo", "complementary"].includes(element.attrs.role) ||
+      [...(element.attrs.class || "").split(/\s+/), element.attrs.id || ""].some((name) => BOILERPLATE_NAME.test(name));
+  }
+
+  private codeBlock(element: HtmlElement): string {
+    const code = findAll(element, (child) => child.tag === "code")[0];
+    const language = `${code?.attrs.class || ""} ${element.attrs.class || ""}`.match(/(?:lang|language)-([\w+#-]+)/)?.[1] || "";
+    const text = textContent(element).replace(/^\n/, "").replace(/\s+$/, "");
+    const fence = text.includes("```") ? "~~~" : "```";
+    return `${fence}${language}\n${text}\n${fence}`;
+  }
+
+  // Items on consecutive lines; their continuation lines are indented under the marker
+  private list(element: HtmlElement): string {
+    let number = Number(element.attrs.start) || 1;
+    const items: string[] = [];
+    for (const child of element.children) {
+      if (!isElement(child)) {
+        continue;
+      }
+      const content = (child.tag === "li" ? this.children(child) : this.node(child).text).trim().replace(/\n{2,}/g, "\n");
+      if (!content) {
+        continue;
+      }
+      if (child.tag !== "li") {
+        // A list nested straight into a list, without an <li> around it
+        items.push(content.split("\n").map((line) => `  ${line}`).join("\n"));
+        continue;
+      }
+      const marker = element.tag === "ol" ? `${number++}. ` : "- ";
+      const indent = " ".repeat(marker.length);
+      items.push(content.split("\n").map((line, index) => index === 0 ? marker + line : indent + line).join("\n"));
+    }
+    return items.join("\n");
+  }
+
+  // The first row is the header, as Markdown tables require one
+  private table(element: HtmlElement): string {
+    const rows = findAll(element, (child) => child.tag === "tr")
+      .map((row) => row.children.filter(isElement).filter((cell) => cell.tag === "td" || cell.tag === "th"))
+      .filter((cells) => cells.length > 0)
+      .map((cells) => cells.map((cell) => oneLine(this.children(cell)).replace(/\|/g, "\\|")));
+    if (rows.length === 0) {
+      return "";
+    }
+    const columns = Math.max(...rows.map((cells) => cells.length));
+    const line = (cells: string[]) => `| ${Array.from({ length: columns }, (_, index) => cells[index] ?? "").join(" | ")} |`;
+    return [line(rows[0]), line(Array(columns).fill("---")), ...rows.slice(1).map(line)].join("\n");
+  }
+
+  private link(element: HtmlElement): string {
+    const text = oneLine(this.children(element));
+    const href = element.attrs.href?.trim();
+    if (!text || !href || href.startsWith("#") || /^javascript:/i.test(href)) {
+      return text;
+    }
+    return `[${text}](${this.resolve(href)})`;
+  }
+
+  private image(element: HtmlElement): string {
+    const alt = oneLine(element.attrs.alt || "");
+    const src = element.attrs.src?.trim();
+    // Inline data would swamp the text
+    if (!src || src.startsWith("data:")) {
+      return alt;
+    }
+    return `![${alt}](${this.resolve(src)})`;
+  }
+
+  private resolve(url: string): string {
+    try {
+      return new URL(url, this.baseUrl).href;
+    } catch {
+      return url;
+    }
+  }
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// Wrap in a marker, keeping surrounding spaces outside it
+function emphasize(text: string, marker: string): string {
+  const [, before, inner, after] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return inner ? `${before}${marker}${inner}${marker}${after}` : text;
+}
+
+function htmlToMarkdown(html: string, options: MarkdownOptions = {}): ConvertedPage {
+  const root = parseHtml(html);
+  const titleElement = findAll(root, (element) => element.tag === "title")[0];
+  const heading = findAll(root, (element) => element.tag === "h1")[0];
+  const title = oneLine(textContent(titleElement ?? heading ?? ""));
+
+  const content = options.mainContent ? findMainContent(root) : root;
+  const markdown = new MarkdownRenderer(options.baseUrl, options.mainContent).render(content);
+  return { title, markdown };
+}
+
+export { htmlToMarkdown, MarkdownOptions, ConvertedPage };
@@ -0,0 +1,176 @@
+// Unified diff parsing and application for fs_apply_patch. Accepts the output
+// of `diff -u` and `git diff` (extended headers such as "index" or "new file
+// mode" are ignored). Hunks must match exactly but may have moved, as when
+// earlier parts of the file changed since the diff was made.
+
+interface Hunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  // Body lines with their ' ', '-' or '+' prefix
+  lines: string[];
+  // "\ No newline at end of file" follows the hunk's last new-side line
+  newNoNewline: boolean;
+}
+
+interface FilePatch {
+  // null for a file the patch creates (--- /dev/null)
+  oldPath: string | null;
+  // null for a file the patch deletes (+++ /dev/null)
+  newPath: string | null;
+  hunks: Hunk[];
+}
+
+class PatchError extends Error {}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function parsePatch(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const files: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.startsWith("--- ") && lines[index + 1]?.startsWith("+++ ")) {
+      current = {
+        oldPath: parsePath(line.slice(4)),
+        newPath: parsePath(lines[index + 1].slice(4)),
+        hunks: [],
+      };
+      files.push(current);
+      index += 2;
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      if (!current) {
+        throw new PatchError(`hunk at line ${index + 1} has no ---/+++ file header`);
+      }
+      const hunk: Hunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] !== undefined ? Number(header[2]) : 1,
+        newStart: Number(header[3]),
+        newLines: header[4] !== undefined ? Number(header[4]) : 1,
+        lines: [],
+        newNoNewline: false,
+      };
+      index = readHunkBody(lines, index + 1, hunk);
+      current.hunks.push(hunk);
+      continue;
+    }
+
+    index++;
+  }
+
+  if (files.length === 0) {
+    throw new PatchError("no file headers (--- a/file, +++ b/file) found in patch");
+  }
+  for (const file of files) {
+    if (file.hunks.length === 0 && file.oldPath !== null && file.newPath !== null) {
+      throw new PatchError(`no hunks for ${file.newPath}`);
+    }
+  }
+  return files;
+}
+
+// Read body lines until the header's line counts are used up
+function readHunkBody(lines: string[], index: number, hunk: Hunk): number {
+  let oldRemaining = hunk.oldLines;
+  let newRemaining = hunk.newLines;
+
+  while (oldRemaining > 0 || newRemaining > 0) {
+    if (index >= lines.length) {
+      throw new PatchError(`hunk @@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@ ends early`);
+    }
+    // Editors and chat often strip the lone space of an empty context line
+    const line = lines[index] === "" ? " " : lines[index];
+    const kind = line[0];
+    if (kind === " ") {
+      oldRemaining--;
+      newRemaining--;
+    } else if (kind === "-") {
+      oldRemaining--;
+    } else if (kind === "+") {
+      newRemaining--;
+    } else if (kind !== "\\") {
+      throw new PatchError(`unexpected line in hunk @@ -${hunk.oldStart},${hunk.oldLines} @@: ${JSON.stringify(lines[index])}`);
+    }
+    if (kind !== "\\") {
+      hunk.lines.push(line);
+    }
+    index++;
+  }
+
+  // Optional "\ No newline at end of file" after the last line
+  if (lines[index]?.startsWith("\\")) {
+    const last = hunk.lines[hunk.lines.length - 1];
+    if (last && last[0] !== "-") {
+      hunk.newNoNewline = true;
+    }
+    index++;
+  }
+  return index;
+}
+
+// "a/src/x.ts\t2024-01-01 ..." -> "src/x.ts"
+function parsePath(raw: string): string | null {
+  const name = raw.split("\t")[0].trim().replace(/^"(.*)"$/, "$1");
+  if (name === "/dev/null") {
+    return null;
+  }
+  return name.replace(/^[ab]\//, "");
+}
+
+// Apply hunks to a file's contents, returning the new contents
+function applyHunks(original: string, hunks: Hunk[], name: string): string {
+  const endsWithNewline = original === "" || original.endsWith("\n");
+  const lines = original === "" ? [] : original.replace(/\n$/, "").split("\n");
+  let offset = 0;
+  let reachesEnd = false;
+
+  hunks.forEach((hunk, number) => {
+    const expected = hunk.lines.filter((line) => line[0] !== "+").map((line) => line.slice(1));
+    const replacement = hunk.lines.filter((line) => line[0] !== "-").map((line) => line.slice(1));
+    // Zero-length old ranges point at the line before the insertion
+    const wanted = Math.max(0, (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + offset);
+    const at = findLines(lines, expected, wanted);
+    if (at === -1) {
+      throw new PatchError(`hunk ${number + 1} (@@ -${hunk.oldStart},${hunk.oldLines} @@) does not apply to ${name}: the expected lines were not found`);
+    }
+    lines.splice(at, expected.length, ...replacement);
+    offset += at - wanted + replacement.length - expected.length;
+    reachesEnd = at + replacement.length === lines.length;
+  });
+
+  if (lines.length === 0) {
+    return "";
+  }
+  const noNewline = hunks.some((hunk) => hunk.newNoNewline);
+  const trailing = noNewline ? "" : reachesEnd || endsWithNewline ? "\n" : "";
+  return lines.join("\n") + trailing;
+}
+
+// Where `expected` occurs in `lines`, searching outward from `near`
+function findLines(lines: string[], expected: string[], near: number): number {
+  const matchesAt = (start: number) =>
+    start >= 0 &&
+    start + expected.length <= lines.length &&
+    expected.every((line, index) => lines[start + index] === line);
+
+  for (let distance = 0; distance <= lines.length; distance++) {
+    if (matchesAt(near - distance)) {
+      return near - distance;
+    }
+    if (distance > 0 && matchesAt(near + distance)) {
+      return near + distance;
+    }
+  }
+  return -1;
+}
+
+export { Hunk, FilePatch, PatchError, parsePatch, applyHunks };
@@ -0,0 +1,106 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Prompt, PromptArgument, GetPromptResult, McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+
+interface PromptTemplate {
+  prompt: Prompt;
+  body: string;
+}
+
+// Loads parameterized prompt templates from a directory of .md files.
+//
+// A template starts with a front matter block describing the prompt and its
+// arguments, followed by the message body with {{argument}} placeholders:
+//
+//   ---
+//   description: Search the web for a topic and summarize the top result
+//   argument topic: The subject to research
+//   argument focus (optional): Aspect to focus the summary on
+//   ---
+//   Search the web for {{topic}} ...
+class PromptLibrary {
+  private templates = new Map<string, PromptTemplate>();
+
+  loadFromDirectory(dir: string): string[] {
+    const root = path.resolve(dir);
+    if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+      throw new Error(`Prompts directory not found: ${root}`);
+    }
+
+    const loaded: string[] = [];
+    for (const file of fs.readdirSync(root).filter((file) => file.endsWith(".md")).sort()) {
+      const name = path.basename(file, ".md");
+      const template = parseTemplate(name, fs.readFileSync(path.join(root, file), "utf8"));
+      this.templates.set(name, template);
+      loaded.push(name);
+    }
+    return loaded;
+  }
+
+  list(): Prompt[] {
+    return Array.from(this.templates.values()).map((template) => template.prompt);
+  }
+
+  get(name: string, args: Record<string, string> = {}): GetPromptResult {
+    const template = this.templates.get(name);
+    if (!template) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const missing = (template.prompt.arguments || [])
+      .filter((argument) => argument.required && !args[argument.name])
+      .map((argument) => argument.name);
+    if (missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required argument(s) for prompt '${name}': ${missing.join(", ")}`);
+    }
+
+    const text = template.body.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key) => args[key] ?? "").trim();
+    return {
+      description: template.prompt.description,
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text,
+          },
+        },
+      ],
+    };
+  }
+}
+
+function parseTemplate(name: string, source: string): PromptTemplate {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) {
+    return { prompt: { name }, body: source };
+  }
+
+  const [, header, body] = match;
+  const prompt: Prompt = { name };
+  const args: PromptArgument[] = [];
+
+  for (const line of header.split(/\r?\n/)) {
+    const field = line.match(/^\s*([^:]+?)\s*:\s*(.*)$/);
+    if (!field) {
+      continue;
+    }
+    const [, key, value] = field;
+    const argument = key.match(/^argument\s+(\w+)(\s*\(optional\))?$/);
+
+    if (argument) {
+      args.push({ name: argument[1], description: value, required: !argument[2] });
+    } else if (key === "description") {
+      prompt.description = value;
+    } else {
+      throw new Error(`Invalid prompt template ${name}: unknown front matter field '${key}'`);
+    }
+  }
+
+  if (args.length > 0) {
+    prompt.arguments = args;
+  }
+  return { prompt, body };
+}
+
+export { PromptLibrary };
@@ -0,0 +1,150 @@
+import {
+  Resource,
+  ResourceTemplate,
+  TextResourceContents,
+  BlobResourceContents,
+} from "@modelcontextprotocol/sdk/types.js";
+
+const SERVER_LOG_URI = "log://server";
+const MAX_LOG_LINES = 1000;
+const MAX_ARTIFACTS_PER_KIND = 50;
+
+type ArtifactKind = "screenshot" | "command-output";
+
+interface StoredResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+  text?: string;
+  // Base64 encoded binary content
+  blob?: string;
+}
+
+interface ResourceStoreEvents<Subscriber> {
+  // A new resource was published or an old one evicted
+  onListChanged?: () => void;
+  // A subscribed resource changed; only its subscribers are to be told
+  onUpdated?: (uri: string, subscribers: Subscriber[]) => void;
+}
+
+// In-memory store for artifacts produced by tools (screenshots, command
+// outputs) plus the server's own log, addressable by URI. Subscribers are
+// whatever the caller tells apart, e.g. client sessions.
+class ResourceStore<Subscriber = unknown> {
+  private resources = new Map<string, StoredResource>();
+  private subscriptions = new Map<string, Set<Subscriber>>();
+  private nextId: Record<ArtifactKind, number> = { "screenshot": 1, "command-output": 1 };
+  private logLines: string[] = [];
+  private events: ResourceStoreEvents<Subscriber>;
+
+  constructor(events: ResourceStoreEvents<Subscriber> = {}) {
+    this.events = events;
+    this.resources.set(SERVER_LOG_URI, {
+      uri: SERVER_LOG_URI,
+      name: "Server log",
+      description: "Recent log output from the MCP server",
+      mimeType: "text/plain",
+    });
+  }
+
+  // Publish a tool artifact and return its URI
+  publish(kind: ArtifactKind, resource: Omit<StoredResource, "uri">): string {
+    const uri = `${kind}://${this.nextId[kind]++}`;
+    this.resources.set(uri, { ...resource, uri });
+    this.evictOldest(kind);
+    this.events.onListChanged?.();
+    return uri;
+  }
+
+  appendLog(line: string) {
+    this.logLines.push(`${new Date().toISOString()} ${line}`);
+    if (this.logLines.length > MAX_LOG_LINES) {
+      this.logLines.splice(0, this.logLines.length - MAX_LOG_LINES);
+    }
+    this.notifyUpdated(SERVER_LOG_URI);
+  }
+
+  list(): Resource[] {
+    return Array.from(this.resources.values()).map(({ uri, name, description, mimeType }) => ({
+      uri,
+      name,
+      description,
+      mimeType,
+    }));
+  }
+
+  templates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: "screenshot://{id}",
+        name: "Browser screenshot",
+        description: "PNG screenshot captured by browser_screenshot",
+        mimeType: "image/png",
+      },
+      {
+        uriTemplate: "command-output://{id}",
+        name: "Command output",
+        description: "stdout/stderr of an execute_bash call, up to the policy's maxOutputBytes; longer output keeps its start and end around a [... truncated N bytes ...] marker",
+        mimeType: "text/plain",
+      },
+    ];
+  }
+
+  read(uri: string): TextResourceContents | BlobResourceContents {
+    const resource = this.resources.get(uri);
+    if (!resource) {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+    if (uri === SERVER_LOG_URI) {
+      return { uri, mimeType: resource.mimeType, text: this.logLines.join("\n") };
+    }
+    if (resource.blob !== undefined) {
+      return { uri, mimeType: resource.mimeType, blob: resource.blob };
+    }
+    return { uri, mimeType: resource.mimeType, text: resource.text ?? "" };
+  }
+
+  subscribe(uri: string, subscriber: Subscriber) {
+    if (!this.resources.has(uri)) {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+    if (!this.subscriptions.has(uri)) {
+      this.subscriptions.set(uri, new Set());
+    }
+    this.subscriptions.get(uri)!.add(subscriber);
+  }
+
+  unsubscribe(uri: string, subscriber: Subscriber) {
+    const subscribers = this.subscriptions.get(uri);
+    subscribers?.delete(subscriber);
+    if (subscribers?.size === 0) {
+      this.subscriptions.delete(uri);
+    }
+  }
+
+  // Drop every subscription of a subscriber that went away
+  unsubscribeAll(subscriber: Subscriber) {
+    for (const uri of Array.from(this.subscriptions.keys())) {
+      this.unsubscribe(uri, subscriber);
+    }
+  }
+
+  private notifyUpdated(uri: string) {
+    const subscribers = this.subscriptions.get(uri);
+    if (subscribers) {
+      this.events.onUpdated?.(uri, Array.from(subscribers));
+    }
+  }
+
+  // Keep memory bounded by dropping the oldest artifacts of a kind
+  private evictOldest(kind: ArtifactKind) {
+    const uris = Array.from(this.resources.keys()).filter((uri) => uri.startsWith(`${kind}://`));
+    for (const uri of uris.slice(0, Math.max(0, uris.length - MAX_ARTIFACTS_PER_KIND))) {
+      this.resources.delete(uri);
+      this.subscriptions.delete(uri);
+    }
+  }
+}
+
+export { ResourceStore, SERVER_LOG_URI };
@@ -0,0 +1,335 @@
+import * as fs from "fs";
+import * as path from "path";
+import { spawn, ChildProcess } from "child_process";
+import { validateSchema, formatErrors } from "./schema";
+
+// Per-deployment policy applied to every execute_bash call. This is a policy
+// layer, not a jail: it stops the obvious mistakes and leaks (secrets in env,
+// runaway processes, huge outputs) but a determined command can still reach
+// outside the working directory.
+interface BashPolicy {
+  // Commands that may run; empty means anything not denied
+  allowCommands: string[];
+  denyCommands: string[];
+  // Regular expressions matched against the whole command line
+  denyPatterns: string[];
+  // Like denyPatterns, but the user is asked to confirm instead (MCP
+  // elicitation); refused when the client can't ask
+  confirmPatterns: string[];
+  // Commands run here, and `cwd` arguments must stay inside it
+  workingDirectory: string;
+  // Environment variables passed through to the command; everything else is dropped
+  envAllowlist: string[];
+  timeoutMs: number;
+  maxOutputBytes: number;
+  limits: ResourceLimits;
+}
+
+interface ResourceLimits {
+  cpuSeconds?: number;
+  memoryMb?: number;
+  maxProcesses?: number;
+  maxFileSizeMb?: number;
+}
+
+interface BashResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  cancelled: boolean;
+  truncated: boolean;
+}
+
+interface RunBashOptions {
+  cwd?: string;
+  // Kills the command when aborted
+  signal?: AbortSignal;
+  // Called with every chunk as it is produced
+  onOutput?: (stream: "stdout" | "stderr", chunk: string) => void;
+}
+
+class PolicyViolation extends Error {}
+
+const DEFAULT_BASH_POLICY: BashPolicy = {
+  allowCommands: [],
+  denyCommands: ["sudo", "su", "doas", "shutdown", "reboot", "halt", "poweroff", "mkfs"],
+  denyPatterns: [
+    "\\brm\\s+(-\\w+\\s+)*/(\\s|$)",
+    ":\\(\\)\\s*\\{",
+  ],
+  confirmPatterns: [
+    "\\brm\\s+(-\\w+\\s+)*(-\\w*[rR]|--recursive)",
+    "\\bgit\\s+push\\b.*\\s(-f|--force)",
+    "\\bgit\\s+(reset\\s+--hard|clean)\\b",
+    "\\bdd\\b.*\\bof=",
+  ],
+  workingDirectory: process.cwd(),
+  envAllowlist: ["PATH", "HOME", "LANG", "LC_ALL", "TERM", "USER", "SHELL", "TMPDIR", "TZ"],
+  timeoutMs: 30000,
+  maxOutputBytes: 100000,
+  limits: {},
+};
+
+const BASH_POLICY_SCHEMA = {
+  type: "object",
+  properties: {
+    allowCommands: { type: "array", items: { type: "string" } },
+    denyCommands: { type: "array", items: { type: "string" } },
+    denyPatterns: { type: "array", items: { type: "string" } },
+    confirmPatterns: { type: "array", items: { type: "string" } },
+    workingDirectory: { type: "string" },
+    envAllowlist: { type: "array", items: { type: "string" } },
+    timeoutMs: { type: "integer", minimum: 1 },
+    maxOutputBytes: { type: "integer", minimum: 1 },
+    limits: {
+      type: "object",
+      properties: {
+        cpuSeconds: { type: "integer", minimum: 1 },
+        memoryMb: { type: "integer", minimum: 1 },
+        maxProcesses: { type: "integer", minimum: 1 },
+        maxFileSizeMb: { type: "integer", minimum: 1 },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+// Defaults, then the JSON file named by MCP_BASH_POLICY, then explicit overrides
+function loadBashPolicy(overrides: Partial<BashPolicy> = {}): BashPolicy {
+  let fromFile: Partial<BashPolicy> = {};
+  const policyFile = process.env.MCP_BASH_POLICY;
+  if (policyFile) {
+    fromFile = JSON.parse(fs.readFileSync(policyFile, "utf8"));
+  }
+
+  const policy = { ...DEFAULT_BASH_POLICY, ...fromFile, ...overrides };
+  const validation = validateSchema(BASH_POLICY_SCHEMA, policy);
+  if (!validation.valid) {
+    throw new Error(`Invalid bash policy${policyFile ? ` in ${policyFile}` : ""}:\n${formatErrors(validation.errors)}`);
+  }
+
+  policy.workingDirectory = path.resolve(policy.workingDirectory);
+  return policy;
+}
+
+// Throws PolicyViolation when a command may not run
+function checkCommand(command: string, policy: BashPolicy) {
+  for (const pattern of policy.denyPatterns) {
+    if (new RegExp(pattern).test(command)) {
+      throw new PolicyViolation(`command matches denied pattern /${pattern}/`);
+    }
+  }
+
+  for (const name of commandNames(command)) {
+    if (policy.denyCommands.includes(name)) {
+      throw new PolicyViolation(`'${name}' is on the deny list`);
+    }
+    if (policy.allowCommands.length > 0 && !policy.allowCommands.includes(name)) {
+      throw new PolicyViolation(`'${name}' is not on the allow list (${policy.allowCommands.join(", ")})`);
+    }
+  }
+}
+
+// The confirmPatterns entry a command matches, or null if it can run unasked
+function confirmationPattern(command: string, policy: BashPolicy): string | null {
+  return policy.confirmPatterns.find((pattern) => new RegExp(pattern).test(command)) ?? null;
+}
+
+// Where one command ends and another starts: lists, pipes, background jobs,
+// command substitution and subshells
+const COMMAND_SEPARATOR = /\|\||&&|[;|&\n]|\$\(|`|\(|\)/;
+
+// The program name of every pipeline segment, skipping leading VAR=value assignments
+function commandNames(command: string): string[] {
+  return command
+    .split(COMMAND_SEPARATOR)
+    .map((segment) => segment.trim().split(/\s+/).filter((word) => !/^\w+=/.test(word))[0])
+    .filter((word): word is string => !!word && !/^[<>{}!]/.test(word))
+    .map((word) => path.basename(word.replace(/^["']|["']$/g, "")));
+}
+
+// Whether a command line runs more than one command
+function chainsCommands(command: string): boolean {
+  return COMMAND_SEPARATOR.test(command);
+}
+
+// Resolve a requested directory, refusing anything outside the working directory
+function resolveWorkingDirectory(policy: BashPolicy, cwd?: string): string {
+  const resolved = path.resolve(policy.workingDirectory, cwd || ".");
+  const relative = path.relative(policy.workingDirectory, resolved);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new PolicyViolation(`working directory ${resolved} is outside ${policy.workingDirectory}`);
+  }
+  return resolved;
+}
+
+function scrubbedEnv(policy: BashPolicy): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const name of policy.envAllowlist) {
+    if (process.env[name] !== undefined) {
+      env[name] = process.env[name];
+    }
+  }
+  return env;
+}
+
+// ulimit prefix for the optional resource limits
+function limitsPrefix(limits: ResourceLimits): string {
+  const lines: string[] = [];
+  if (limits.cpuSeconds) lines.push(`ulimit -t ${limits.cpuSeconds}`);
+  if (limits.memoryMb) lines.push(`ulimit -v ${limits.memoryMb * 1024}`);
+  if (limits.maxProcesses) lines.push(`ulimit -u ${limits.maxProcesses}`);
+  if (limits.maxFileSizeMb) lines.push(`ulimit -f ${limits.maxFileSizeMb * 1024}`);
+  return lines.map((line) => `${line}\n`).join("");
+}
+
+// Where to cut UTF-8 at or before `offset` without splitting a character
+function charBoundary(bytes: Buffer, offset: number): number {
+  while (offset > 0 && offset < bytes.length && (bytes[offset] & 0xc0) === 0x80) {
+    offset--;
+  }
+  return offset;
+}
+
+// Keeps the head and tail of a stream once it grows past its budget, counted
+// in UTF-8 bytes
+class CappedOutput {
+  private head = "";
+  private headRoom: number;
+  private tail = "";
+  private dropped = 0;
+
+  constructor(private maxBytes: number) {
+    this.headRoom = Math.floor(maxBytes / 2);
+  }
+
+  append(chunk: string) {
+    if (this.headRoom > 0) {
+      const bytes = Buffer.from(chunk);
+      const cut = charBoundary(bytes, Math.min(this.headRoom, bytes.length));
+      this.head += bytes.subarray(0, cut).toString();
+      // Once anything spills over, the head is done even with a few bytes left
+      this.headRoom = cut < bytes.length ? 0 : this.headRoom - cut;
+      chunk = bytes.subarray(cut).toString();
+    }
+    this.tail += chunk;
+    const bytes = Buffer.from(this.tail);
+    const tailBudget = this.maxBytes - Math.floor(this.maxBytes / 2);
+    if (bytes.length > tailBudget) {
+      // Round up to a character boundary so the tail stays within budget
+      let start = bytes.length - tailBudget;
+      while (start < bytes.length && (bytes[start] & 0xc0) === 0x80) {
+        start++;
+      }
+      this.tail = bytes.subarray(start).toString();
+      this.dropped += start;
+    }
+  }
+
+  get truncated(): boolean {
+    return this.dropped > 0;
+  }
+
+  toString(): string {
+    if (!this.truncated) {
+      return this.head + this.tail;
+    }
+    return `${this.head}\n[... truncated ${this.dropped} bytes ...]\n${this.tail}`;
+  }
+}
+
+// Start a policy-checked command in its own process group. Throws
+// PolicyViolation before anything is spawned.
+function spawnSandboxed(command: string, policy: BashPolicy, cwd?: string): ChildProcess {
+  checkCommand(command, policy);
+  const directory = resolveWorkingDirectory(policy, cwd);
+
+  return spawn("bash", ["-c", limitsPrefix(policy.limits) + command], {
+    cwd: directory,
+    env: scrubbedEnv(policy),
+    detached: true,
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+}
+
+// Signal the whole process group so background children go too
+function killProcessGroup(child: ChildProcess, signal: NodeJS.Signals = "SIGKILL") {
+  try {
+    process.kill(-child.pid!, signal);
+  } catch (error) {
+    child.kill(signal);
+  }
+}
+
+function runBash(command: string, policy: BashPolicy, options: RunBashOptions = {}): Promise<BashResult> {
+  const child = spawnSandboxed(command, policy, options.cwd);
+
+  return new Promise((resolve, reject) => {
+    // Each stream gets half the output budget
+    const stdout = new CappedOutput(Math.ceil(policy.maxOutputBytes / 2));
+    const stderr = new CappedOutput(Math.ceil(policy.maxOutputBytes / 2));
+    let timedOut = false;
+    let cancelled = false;
+
+    const killGroup = () => killProcessGroup(child);
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup();
+    }, policy.timeoutMs);
+    const onAbort = () => {
+      cancelled = true;
+      killGroup();
+    };
+    if (options.signal?.aborted) {
+      onAbort();
+    }
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    const cleanup = () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+    };
+
+    child.stdout!.setEncoding("utf8").on("data", (chunk: string) => {
+      stdout.append(chunk);
+      options.onOutput?.("stdout", chunk);
+    });
+    child.stderr!.setEncoding("utf8").on("data", (chunk: string) => {
+      stderr.append(chunk);
+      options.onOutput?.("stderr", chunk);
+    });
+    child.on("error", (error) => {
+      cleanup();
+      reject(error);
+    });
+    child.on("close", (exitCode, signal) => {
+      cleanup();
+      resolve({
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
+        exitCode,
+        signal,
+        timedOut,
+        cancelled,
+        truncated: stdout.truncated || stderr.truncated,
+      });
+    });
+  });
+}
+
+export {
+  BashPolicy,
+  BashResult,
+  RunBashOptions,
+  ResourceLimits,
+  PolicyViolation,
+  loadBashPolicy,
+  checkCommand,
+  confirmationPattern,
+  chainsCommands,
+  runBash,
+  spawnSandboxed,
+  killProcessGroup,
+};
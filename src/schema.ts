@@ -0,0 +1,145 @@
+// Minimal JSON Schema validation for tool arguments. Covers the subset the
+// tools actually declare: type, properties, required, enum, items, defaults,
+// additionalProperties and simple string/number bounds.
+
+interface SchemaError {
+  path: string;
+  message: string;
+}
+
+interface ValidationResult {
+  valid: boolean;
+  errors: SchemaError[];
+  // Input with defaults filled in
+  value: any;
+}
+
+function validateSchema(schema: any, value: any): ValidationResult {
+  const errors: SchemaError[] = [];
+  const result = validateNode(schema, value, "", errors);
+  return { valid: errors.length === 0, errors, value: result };
+}
+
+function formatErrors(errors: SchemaError[]): string {
+  return errors.map((error) => `- ${error.path || "(root)"}: ${error.message}`).join("\n");
+}
+
+function validateNode(schema: any, value: any, path: string, errors: SchemaError[]): any {
+  if (!schema || typeof schema !== "object") {
+    return value;
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      errors.push({ path, message: `expected ${types.join(" or ")}, got ${describeType(value)}` });
+      return value;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option: any) => option === value)) {
+    errors.push({ path, message: `must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(", ")}` });
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path, message: `must match pattern ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, message: `must contain at least ${schema.minItems} item(s)` });
+    }
+    return value.map((item, index) => validateNode(schema.items, item, `${path}[${index}]`, errors));
+  }
+
+  if (isPlainObject(value) && (schema.properties || schema.required || schema.additionalProperties !== undefined)) {
+    const properties = schema.properties || {};
+    const output: Record<string, any> = { ...value };
+
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push({ path: joinPath(path, key), message: "is required" });
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries<any>(properties)) {
+      if (value[key] === undefined) {
+        if (propertySchema && propertySchema.default !== undefined) {
+          output[key] = propertySchema.default;
+        }
+        continue;
+      }
+      output[key] = validateNode(propertySchema, value[key], joinPath(path, key), errors);
+    }
+
+    for (const key of Object.keys(value)) {
+      if (key in properties) {
+        continue;
+      }
+      if (schema.additionalProperties === false) {
+        errors.push({ path: joinPath(path, key), message: "is not an allowed property" });
+      } else if (typeof schema.additionalProperties === "object") {
+        output[key] = validateNode(schema.additionalProperties, value[key], joinPath(path, key), errors);
+      }
+    }
+
+    return output;
+  }
+
+  return value;
+}
+
+function matchesType(type: string, value: any): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+export { validateSchema, formatErrors, SchemaError, ValidationResult };
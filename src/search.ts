@@ -0,0 +1,292 @@
+import * as fs from "fs";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { LinkupClient } from "linkup-sdk";
+import { Credentials } from "./config";
+
+// One search hit, the same shape whichever backend produced it
+interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+  // Relevance in [0, 1], higher is better; only comparable within one response
+  score: number;
+}
+
+interface SearchOptions {
+  limit: number;
+}
+
+interface SearchProvider {
+  name: string;
+  search(query: string, options: SearchOptions): Promise<SearchResult[]>;
+  // Why searches would fail with this setup, or null
+  unavailableReason(): string | null;
+}
+
+interface SearchProviderConfig {
+  type?: "linkup" | "local";
+  // Local index only: directory of .md, .html and .txt files
+  indexDir?: string;
+}
+
+const SNIPPET_LENGTH = 240;
+
+let linkupClient: { apiKey: string; client: LinkupClient } | null = null;
+
+function getLinkupClient(apiKey: string): LinkupClient {
+  if (linkupClient?.apiKey !== apiKey) {
+    linkupClient = { apiKey, client: new LinkupClient({ apiKey }) };
+  }
+  return linkupClient.client;
+}
+
+interface LinkupTextResult {
+  type?: string;
+  name?: string;
+  url?: string;
+  content?: string;
+}
+
+// Web search through the Linkup API
+class LinkupSearchProvider implements SearchProvider {
+  name = "linkup";
+
+  constructor(private apiKey: string | undefined, private depth: "standard" | "deep" = "standard") {}
+
+  unavailableReason(): string | null {
+    return this.apiKey ? null : "no Linkup API key (LINKUP_API_KEY) is configured";
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    if (!this.apiKey) {
+      throw new Error(`Cannot search with Linkup: ${this.unavailableReason()}`);
+    }
+
+    const response = await getLinkupClient(this.apiKey).search({
+      query,
+      depth: this.depth,
+      outputType: "searchResults",
+      includeImages: false,
+    }) as { results?: LinkupTextResult[] };
+
+    // Linkup returns results best first without scores, so score by rank
+    const results = (response.results || []).filter((result) => result.type !== "image" && result.url);
+    return results.slice(0, options.limit).map((result, index) => ({
+      title: result.name || result.url!,
+      url: result.url!,
+      snippet: truncate(result.content || "", SNIPPET_LENGTH),
+      score: round(1 - index / Math.max(results.length, 1)),
+    }));
+  }
+}
+
+interface IndexedDocument {
+  path: string;
+  mtimeMs: number;
+  title: string;
+  text: string;
+  // Term -> occurrences, with title terms counted extra
+  terms: Map<string, number>;
+  length: number;
+}
+
+const INDEXED_EXTENSIONS = new Set([".md", ".markdown", ".html", ".htm", ".txt"]);
+const TITLE_WEIGHT = 3;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Offline search over a directory of Markdown, HTML and text files, ranked
+// with BM25. Files are re-read when their modification time changes, so the
+// index follows edits without a restart.
+class LocalIndexProvider implements SearchProvider {
+  name = "local";
+  private root: string;
+  private documents = new Map<string, IndexedDocument>();
+
+  constructor(dir: string) {
+    this.root = path.resolve(dir);
+  }
+
+  unavailableReason(): string | null {
+    if (!fs.existsSync(this.root) || !fs.statSync(this.root).isDirectory()) {
+      return `search index directory not found: ${this.root}`;
+    }
+    return null;
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    this.refresh();
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const documents = Array.from(this.documents.values());
+    const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length;
+    const documentFrequency = new Map<string, number>();
+    for (const term of queryTerms) {
+      documentFrequency.set(term, documents.filter((doc) => doc.terms.has(term)).length);
+    }
+
+    const scored = documents
+      .map((doc) => {
+        let score = 0;
+        for (const term of queryTerms) {
+          const frequency = doc.terms.get(term) || 0;
+          if (frequency === 0) {
+            continue;
+          }
+          const df = documentFrequency.get(term)!;
+          const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+          score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * doc.length / averageLength));
+        }
+        return { doc, score };
+      })
+      .filter((entry) => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit);
+
+    const best = scored.length > 0 ? scored[0].score : 1;
+    return scored.map(({ doc, score }) => ({
+      title: doc.title,
+      url: pathToFileURL(doc.path).href,
+      snippet: snippetFor(doc.text, queryTerms),
+      score: round(score / best),
+    }));
+  }
+
+  // Pick up added, changed and deleted files
+  private refresh() {
+    if (!fs.existsSync(this.root) || !fs.statSync(this.root).isDirectory()) {
+      throw new Error(`Search index directory not found: ${this.root}`);
+    }
+
+    const seen = new Set<string>();
+    for (const file of listFiles(this.root)) {
+      seen.add(file);
+      const mtimeMs = fs.statSync(file).mtimeMs;
+      if (this.documents.get(file)?.mtimeMs !== mtimeMs) {
+        this.documents.set(file, indexDocument(file, mtimeMs));
+      }
+    }
+    for (const file of this.documents.keys()) {
+      if (!seen.has(file)) {
+        this.documents.delete(file);
+      }
+    }
+  }
+}
+
+function listFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith(".") || entry.name === "node_modules") {
+      continue;
+    }
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listFiles(full));
+    } else if (entry.isFile() && INDEXED_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(full);
+    }
+  }
+  return files;
+}
+
+function indexDocument(file: string, mtimeMs: number): IndexedDocument {
+  const source = fs.readFileSync(file, "utf8");
+  const extension = path.extname(file).toLowerCase();
+  let title = "";
+  let text = source;
+
+  if (extension === ".html" || extension === ".htm") {
+    title = decodeEntities(source.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || source.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)?.[1] || "");
+    text = htmlToText(source);
+  } else if (extension === ".md" || extension === ".markdown") {
+    title = source.match(/^#\s+(.+)$/m)?.[1] || "";
+  }
+  title = title.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim() || path.basename(file, extension);
+  text = text.replace(/\s+/g, " ").trim();
+
+  const terms = new Map<string, number>();
+  const bodyTerms = tokenize(text);
+  for (const term of bodyTerms) {
+    terms.set(term, (terms.get(term) || 0) + 1);
+  }
+  for (const term of tokenize(title)) {
+    terms.set(term, (terms.get(term) || 0) + TITLE_WEIGHT);
+  }
+  return { path: file, mtimeMs, title, text, terms, length: bodyTerms.length };
+}
+
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript|head)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<[^>]+>/g, " ")
+  );
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter((term) => term.length > 1);
+}
+
+// The stretch of text around the first query term it contains
+function snippetFor(text: string, queryTerms: string[]): string {
+  const lower = text.toLowerCase();
+  const positions = queryTerms.map((term) => lower.indexOf(term)).filter((index) => index !== -1);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, first - SNIPPET_LENGTH / 3);
+  const snippet = truncate(text.slice(start), SNIPPET_LENGTH);
+  return start > 0 ? `…${snippet}` : snippet;
+}
+
+function truncate(text: string, length: number): string {
+  const collapsed = text.replace(/\s+/g, " ").trim();
+  return collapsed.length > length ? `${collapsed.slice(0, length - 1)}…` : collapsed;
+}
+
+function round(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
+
+// The configured type wins; otherwise Linkup when its API key is set and the
+// local index when only an index directory is
+function createSearchProvider(config: SearchProviderConfig, credentials: Credentials): SearchProvider {
+  const type = config.type || (!credentials.linkupApiKey && config.indexDir ? "local" : "linkup");
+
+  switch (type) {
+    case "linkup":
+      return new LinkupSearchProvider(credentials.linkupApiKey);
+    case "local":
+      if (!config.indexDir) {
+        throw new Error("The local search provider needs an index directory (search.indexDir, MCP_SEARCH_INDEX_DIR or --search-index)");
+      }
+      return new LocalIndexProvider(config.indexDir);
+    default:
+      throw new Error(`Unknown search provider: ${type} (expected "linkup" or "local")`);
+  }
+}
+
+export {
+  SearchResult,
+  SearchOptions,
+  SearchProvider,
+  SearchProviderConfig,
+  LinkupSearchProvider,
+  LocalIndexProvider,
+  createSearchProvider,
+  getLinkupClient,
+};
@@ -1,43 +1,180 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
-  Tool,
   ListToolsResult,
   CallToolResult,
+  ListResourcesRequestSchema,
+  ListResourcesResult,
+  ListResourceTemplatesRequestSchema,
+  ListResourceTemplatesResult,
+  ReadResourceRequestSchema,
+  ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  ListPromptsResult,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  isInitializeRequest,
+  SetLevelRequestSchema,
+  CreateMessageResultSchema,
+  ElicitRequest,
+  ElicitResult,
+  ElicitResultSchema,
+  LoggingLevel,
+  ServerRequest,
+  ServerNotification,
 } from "@modelcontextprotocol/sdk/types.js";
-import { exec } from "child_process";
-import { promisify } from "util";
-import { chromium } from "playwright-core";
-import Browserbase from "@browserbasehq/sdk";
-import { LinkupClient } from "linkup-sdk";
-
-const execAsync = promisify(exec);
+import * as http from "http";
+import { randomUUID } from "crypto";
+import { ToolRegistry, ToolContext, builtinTools } from "./tools";
+import { ResourceStore } from "./resources";
+import { PromptLibrary } from "./prompts";
+import { BashPolicy, loadBashPolicy } from "./sandbox";
+import { JobManager } from "./jobs";
+import { FsPolicy, loadFsPolicy } from "./workspace";
+import { BrowserSession, BrowserProviderConfig, createBrowserProvider } from "./browser";
+import { SearchProvider, SearchProviderConfig, createSearchProvider } from "./search";
+import { ServerConfig, Credentials, loadServerConfig, resolveCredentials } from "./config";
+import { AuditLog, Redactor } from "./audit";
+import { UrlFetcher } from "./fetcher";
+import { Lifecycle } from "./lifecycle";
+import { validateSchema, formatErrors } from "./schema";
 
 // =============================================================================
 // MCP SERVER IMPLEMENTATION
 // =============================================================================
 
 
+// MCP logging levels (RFC 5424 severities), least severe first
+const LOG_LEVELS: LoggingLevel[] = ["debug", "info", "notice", "warning", "error", "critical", "alert", "emergency"];
+
+// Sampling and elicitation requests wait for the user, so they get longer
+// than the SDK's default 60 seconds
+const USER_REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+// HTTP request bodies are JSON-RPC messages; anything bigger is refused with 413
+const MAX_HTTP_BODY_BYTES = 4 * 1024 * 1024;
+// HTTP sessions without a request for this long are closed, for clients that
+// go away without DELETE. The chat client pings every 15 seconds.
+const HTTP_SESSION_IDLE_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+// Host names a server bound to a loopback address answers to
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+class BodyTooLarge extends Error {}
+
+// Everything but configFile overrides the matching part of the config file
+interface MCPServerOptions {
+  // Server config file (defaults to MCP_SERVER_CONFIG, then ./mcp-server.json if present)
+  configFile?: string;
+  // Directory of extra tool modules to load at startup
+  toolsDir?: string;
+  // Directory of prompt templates (./prompts if present and nothing else is configured)
+  promptsDir?: string;
+  // Overrides for the execute_bash policy (on top of defaults and MCP_BASH_POLICY)
+  bashPolicy?: Partial<BashPolicy>;
+  // Overrides for the fs_* tools' roots and limits (on top of defaults and MCP_FS_ROOTS)
+  fsPolicy?: Partial<FsPolicy>;
+  // Browser backend for the browser_* tools (Browserbase if its API key is
+  // configured, otherwise local Chromium)
+  browser?: BrowserProviderConfig;
+  // Backend for web_search (Linkup if its API key is configured, otherwise the
+  // local index when there is one)
+  search?: SearchProviderConfig;
+}
+
+interface StartOptions {
+  // Serve MCP over Streamable HTTP instead of stdio
+  http?: boolean;
+  port?: number;
+  host?: string;
+  // Host names (without port) the Host and Origin headers may name, against
+  // DNS rebinding and cross-site requests from browsers. Defaults to the
+  // loopback names when bound to a loopback address, and to any host otherwise.
+  allowedHosts?: string[];
+}
+
 class MCPServer {
-  private server: Server;
-  private browser: any = null;
-  private page: any = null;
-  private browserbase: Browserbase;
-  private linkupClient: LinkupClient;
-  private verboseLogging: boolean = true;
-
-  constructor() {
-    this.browserbase = new Browserbase({ 
-      apiKey: process.env.BROWSERBASE_API_KEY || "" 
+  // One protocol Server per connected client, with the log level it asked for;
+  // tools, browser and resources are shared
+  private sessions = new Map<Server, LoggingLevel>();
+  private httpTransports = new Map<string, StreamableHTTPServerTransport>();
+  // When each HTTP session last sent a request
+  private httpActivity = new Map<string, number>();
+  private httpServer: http.Server | null = null;
+  private sessionSweep: NodeJS.Timeout | null = null;
+  // null lets any host through
+  private allowedHosts: string[] | null = null;
+  private registry: ToolRegistry;
+  private resources: ResourceStore<Server>;
+  private prompts: PromptLibrary;
+  private promptsDir?: string;
+  private bashPolicy: BashPolicy;
+  private jobs = new JobManager();
+  private fsPolicy: FsPolicy;
+  private toolsDir?: string;
+  private browser: BrowserSession;
+  private search: SearchProvider;
+  private fetcher: UrlFetcher;
+  private config: ServerConfig;
+  private credentials: Credentials;
+  private audit: AuditLog | null;
+  // Applied to everything logged as well as to the audit log
+  private redactor: Redactor;
+  // Tool calls still running, cancelled on shutdown so their child processes die
+  private inFlight = new Set<AbortController>();
+  private lifecycle = new Lifecycle({ log: (...args: any[]) => this.logAt("notice", ...args) });
+  // Log level echoed to stderr; stdio mode leaves it unset since logs reach the
+  // client as notifications and stderr would spill into its terminal
+  private consoleLogLevel: LoggingLevel | null = null;
+
+  // Throws when the configuration is invalid, with a message saying what is wrong
+  constructor(options: MCPServerOptions = {}) {
+    this.config = loadServerConfig(options.configFile, {
+      tools: { dir: options.toolsDir },
+      promptsDir: options.promptsDir,
+      browser: options.browser,
+      search: options.search,
+      bash: options.bashPolicy,
+      fs: options.fsPolicy,
     });
-    this.linkupClient = new LinkupClient({ 
-      apiKey: process.env.LINKUP_API_KEY || "" 
+    this.credentials = resolveCredentials(this.config);
+    this.redactor = new Redactor(Object.values(this.credentials));
+    this.audit = this.config.audit.enabled === false
+      ? null
+      : new AuditLog(this.config.audit, this.redactor);
+
+    const log = (...args: any[]) => this.log(...args);
+    this.browser = new BrowserSession(createBrowserProvider(this.config.browser, this.credentials, log), log);
+    this.search = createSearchProvider(this.config.search, this.credentials);
+    this.fetcher = new UrlFetcher(this.config.fetch);
+    this.registry = new ToolRegistry();
+    this.registry.registerAll(builtinTools);
+    this.registry.configure(this.config.tools);
+    this.toolsDir = this.config.tools.dir;
+    this.bashPolicy = loadBashPolicy(this.config.bash);
+    this.fsPolicy = loadFsPolicy(this.config.fs);
+    this.prompts = new PromptLibrary();
+    this.promptsDir = this.config.promptsDir;
+    this.resources = new ResourceStore({
+      onListChanged: () => this.notify((server) => server.sendResourceListChanged()),
+      onUpdated: (uri, subscribers) => {
+        for (const server of subscribers) {
+          server.sendResourceUpdated({ uri }).catch(() => {});
+        }
+      },
     });
-    this.server = new Server(
+  }
+
+  private createServer(onclose?: () => void): Server {
+    const server = new Server(
       {
         name: "hello-world-server",
         version: "1.0.0",
@@ -45,541 +182,474 @@ class MCPServer {
       {
         capabilities: {
           tools: {},
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
+          prompts: {},
+          logging: {},
         },
       }
     );
 
-    this.setupToolHandlers();
+    this.setupToolHandlers(server);
+    this.setupResourceHandlers(server);
+    this.setupPromptHandlers(server);
+    this.setupLoggingHandlers(server);
+
+    server.onclose = () => {
+      this.sessions.delete(server);
+      this.resources.unsubscribeAll(server);
+      onclose?.();
+    };
+    // Until the client sends logging/setLevel it gets the configured level and above
+    this.sessions.set(server, this.config.logging.level);
+    return server;
   }
 
-  private setupToolHandlers() {
+  private setupToolHandlers(server: Server) {
     // Handle list_tools requests
-    this.server.setRequestHandler(ListToolsRequestSchema, async (): Promise<ListToolsResult> => {
+    server.setRequestHandler(ListToolsRequestSchema, async (): Promise<ListToolsResult> => {
       return {
-        tools: [
-          {
-            name: "say_hello",
-            description: "Says hello to a person",
-            inputSchema: {
-              type: "object",
-              properties: {
-                name: {
-                  type: "string",
-                  description: "The name of the person to greet",
-                },
-              },
-              required: ["name"],
-            },
-          } as Tool,
-          {
-            name: "get_time",
-            description: "Gets the current time",
-            inputSchema: {
-              type: "object",
-              properties: {},
-            },
-          } as Tool,
-          {
-            name: "execute_bash",
-            description: "Executes a bash command and returns the output",
-            inputSchema: {
-              type: "object",
-              properties: {
-                command: {
-                  type: "string",
-                  description: "The bash command to execute",
-                },
-              },
-              required: ["command"],
-            },
-          } as Tool,
-          {
-            name: "browser_navigate",
-            description: "Navigate to a URL using Browserbase browser automation",
-            inputSchema: {
-              type: "object",
-              properties: {
-                url: {
-                  type: "string",
-                  description: "The URL to navigate to",
-                },
-              },
-              required: ["url"],
-            },
-          } as Tool,
-          {
-            name: "browser_click",
-            description: "Click on an element in the browser using CSS selector",
-            inputSchema: {
-              type: "object",
-              properties: {
-                selector: {
-                  type: "string",
-                  description: "CSS selector for the element to click",
-                },
-              },
-              required: ["selector"],
-            },
-          } as Tool,
-          {
-            name: "browser_type",
-            description: "Type text into an input field using CSS selector",
-            inputSchema: {
-              type: "object",
-              properties: {
-                selector: {
-                  type: "string",
-                  description: "CSS selector for the input field",
-                },
-                text: {
-                  type: "string",
-                  description: "Text to type",
-                },
-              },
-              required: ["selector", "text"],
-            },
-          } as Tool,
-          {
-            name: "browser_screenshot",
-            description: "Take a screenshot of the current browser page",
-            inputSchema: {
-              type: "object",
-              properties: {},
-            },
-          } as Tool,
-          {
-            name: "browser_get_text",
-            description: "Get text content from an element using CSS selector",
-            inputSchema: {
-              type: "object",
-              properties: {
-                selector: {
-                  type: "string",
-                  description: "CSS selector for the element",
-                },
-              },
-              required: ["selector"],
-            },
-          } as Tool,
-          {
-            name: "linkup_search",
-            description: "Search the web using Linkup for factual and up-to-date information",
-            inputSchema: {
-              type: "object",
-              properties: {
-                query: {
-                  type: "string",
-                  description: "The search query - be specific for best results",
-                },
-                depth: {
-                  type: "string",
-                  enum: ["standard", "deep"],
-                  description: "Search depth: 'standard' (faster, 1 credit) or 'deep' (comprehensive, 10 credits)",
-                  default: "standard"
-                },
-                outputType: {
-                  type: "string",
-                  enum: ["searchResults", "sourcedAnswer"],
-                  description: "Output format: 'searchResults' for raw results or 'sourcedAnswer' for processed answer",
-                  default: "searchResults"
-                },
-                includeImages: {
-                  type: "boolean",
-                  description: "Whether to include images in results",
-                  default: false
-                }
-              },
-              required: ["query"],
-            },
-          } as Tool,
-          {
-            name: "set_logging_mode",
-            description: "Control the verbosity of responses - choose between verbose logging or concise answers",
-            inputSchema: {
-              type: "object",
-              properties: {
-                mode: {
-                  type: "string",
-                  enum: ["verbose", "quiet"],
-                  description: "Logging mode: 'verbose' shows detailed process steps, 'quiet' returns only final answers",
-                },
-              },
-              required: ["mode"],
-            },
-          } as Tool,
-          {
-            name: "get_logging_mode",
-            description: "Get the current logging mode setting",
-            inputSchema: {
-              type: "object",
-              properties: {},
-            },
-          } as Tool,
-        ],
+        tools: this.registry.list(),
       };
     });
 
     // Handle call_tool requests
-    this.server.setRequestHandler(CallToolRequestSchema, async (request): Promise<CallToolResult> => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra): Promise<CallToolResult> => {
       const { name, arguments: args } = request.params;
-
-      switch (name) {
-        case "say_hello":
-          const personName = args?.name || "World";
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Hello, ${personName}! This is a greeting from the MCP server.`,
-              },
-            ],
-          };
-
-        case "get_time":
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Current time: ${new Date().toISOString()}`,
-              },
-            ],
-          };
-
-        case "execute_bash":
-          const command = args?.command as string;
-          if (!command) {
-            throw new Error("Command is required");
-          }
-          
-          try {
-            const { stdout, stderr } = await execAsync(command);
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Command: ${command}\nOutput:\n${stdout}${stderr ? `\nError:\n${stderr}` : ''}`,
-                },
-              ],
-            };
-          } catch (error) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Command: ${command}\nError: ${error.message}`,
-                },
-              ],
-            };
-          }
-
-        case "browser_navigate":
-          const navUrl = args?.url as string;
-          if (!navUrl) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: "Error: URL is required for browser navigation",
-                },
-              ],
-            };
-          }
-
-          try {
-            await this.ensureBrowserSession();
-            await this.page.goto(navUrl, { waitUntil: 'domcontentloaded', timeout: 30000 });
-            const title = await this.page.title();
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Successfully navigated to: ${navUrl}\nPage title: ${title}`,
-                },
-              ],
-            };
-          } catch (error) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Error navigating to ${navUrl}: ${error instanceof Error ? error.message : String(error)}`,
-                },
-              ],
-            };
-          }
-
-        case "browser_click":
-          const clickSelector = args?.selector as string;
-          if (!clickSelector) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: "Error: CSS selector is required for clicking elements",
-                },
-              ],
-            };
-          }
-
-          try {
-            await this.ensureBrowserSession();
-            await this.page.waitForSelector(clickSelector, { timeout: 10000 });
-            await this.page.click(clickSelector);
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Successfully clicked element: ${clickSelector}`,
-                },
-              ],
-            };
-          } catch (error) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Error clicking element ${clickSelector}: ${error instanceof Error ? error.message : String(error)}`,
-                },
-              ],
-            };
-          }
-
-        case "browser_type":
-          const typeSelector = args?.selector as string;
-          const typeText = args?.text as string;
-          if (!typeSelector || typeText === undefined) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: "Error: Both CSS selector and text are required for typing",
-                },
-              ],
-            };
-          }
-
-          try {
-            await this.ensureBrowserSession();
-            await this.page.waitForSelector(typeSelector, { timeout: 10000 });
-            await this.page.fill(typeSelector, typeText);
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Successfully typed "${typeText}" into element: ${typeSelector}`,
-                },
-              ],
-            };
-          } catch (error) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Error typing into element ${typeSelector}: ${error instanceof Error ? error.message : String(error)}`,
-                },
-              ],
-            };
-          }
-
-        case "browser_screenshot":
-          try {
-            await this.ensureBrowserSession();
-            const screenshot = await this.page.screenshot({ encoding: 'base64', fullPage: true });
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Screenshot taken successfully. Data size: ${screenshot.length} characters`,
-                },
-              ],
-            };
-          } catch (error) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Error taking screenshot: ${error instanceof Error ? error.message : String(error)}`,
-                },
-              ],
-            };
-          }
-
-        case "browser_get_text":
-          const textSelector = args?.selector as string;
-          if (!textSelector) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: "Error: CSS selector is required for getting text",
-                },
-              ],
-            };
-          }
-
-          try {
-            await this.ensureBrowserSession();
-            await this.page.waitForSelector(textSelector, { timeout: 10000 });
-            const text = await this.page.textContent(textSelector);
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Text from ${textSelector}: ${text || "Element found but contains no text"}`,
-                },
-              ],
-            };
-          } catch (error) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Error getting text from element ${textSelector}: ${error instanceof Error ? error.message : String(error)}`,
-                },
-              ],
-            };
-          }
-
-        case "linkup_search":
-          const searchQuery = args?.query as string;
-          if (!searchQuery) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: "Error: Search query is required",
-                },
-              ],
-            };
-          }
-
-          try {
-            if (!process.env.LINKUP_API_KEY) {
-              return {
-                content: [
-                  {
-                    type: "text",
-                    text: "Error: LINKUP_API_KEY environment variable is required",
-                  },
-                ],
-              };
-            }
-
-            const searchParams = {
-              query: searchQuery,
-              depth: (args?.depth as "standard" | "deep") || "standard",
-              outputType: (args?.outputType as "searchResults" | "sourcedAnswer") || "searchResults",
-              includeImages: (args?.includeImages as boolean) || false,
-            };
-
-            this.log("🔍 Linkup search params:", searchParams);
-            const response = await this.linkupClient.search(searchParams);
-            
-            let resultText = "";
-            if (searchParams.outputType === "sourcedAnswer") {
-              resultText = `Linkup Search Results for: "${searchQuery}"\n\nAnswer: ${JSON.stringify(response, null, 2)}`;
-            } else {
-              resultText = `Linkup Search Results for: "${searchQuery}"\n\nResults: ${JSON.stringify(response, null, 2)}`;
-            }
-
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: resultText,
-                },
-              ],
-            };
-          } catch (error) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Error performing Linkup search: ${error instanceof Error ? error.message : String(error)}`,
-                },
-              ],
-            };
-          }
-
-        case "set_logging_mode":
-          const mode = args?.mode as string;
-          if (!mode || !["verbose", "quiet"].includes(mode)) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: "Error: Mode must be either 'verbose' or 'quiet'",
-                },
-              ],
-            };
-          }
-
-          this.verboseLogging = mode === "verbose";
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Logging mode set to: ${mode}. ${mode === "verbose" ? "Will show detailed process steps." : "Will return only final answers."}`,
-              },
-            ],
-          };
-
-        case "get_logging_mode":
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Current logging mode: ${this.verboseLogging ? "verbose" : "quiet"}. ${this.verboseLogging ? "Showing detailed process steps." : "Returning only final answers."}`,
-              },
-            ],
-          };
-
-        default:
-          throw new Error(`Unknown tool: ${name}`);
+      this.logToSession(server, "debug", `🔧 Calling tool ${name}`, this.redactor.redact(args || {}));
+      const startedAt = Date.now();
+      const controller = new AbortController();
+      const cancel = () => controller.abort();
+      extra.signal.addEventListener("abort", cancel, { once: true });
+      this.inFlight.add(controller);
+
+      const secretTargets = new Set<string>();
+      let result: CallToolResult;
+      try {
+        result = await this.registry.call(name, args || {}, this.toolContext(server, extra, controller.signal, secretTargets));
+      } finally {
+        this.inFlight.delete(controller);
+        extra.signal.removeEventListener("abort", cancel);
       }
+      this.recordAudit(extra.sessionId, name, args || {}, secretTargets, startedAt, result, controller.signal.aborted);
+      return result;
     });
   }
 
-  private async ensureBrowserSession() {
-    if (!this.browser || !this.page) {
-      if (!process.env.BROWSERBASE_API_KEY) {
-        throw new Error("BROWSERBASE_API_KEY environment variable is required");
-      }
-      if (!process.env.BROWSERBASE_PROJECT_ID) {
-        throw new Error("BROWSERBASE_PROJECT_ID environment variable is required");
-      }
+  private setupResourceHandlers(server: Server) {
+    server.setRequestHandler(ListResourcesRequestSchema, async (): Promise<ListResourcesResult> => {
+      return {
+        resources: this.resources.list(),
+      };
+    });
 
-      this.log("🌐 Creating new Browserbase session...");
-      const session = await this.browserbase.sessions.create({
-        projectId: process.env.BROWSERBASE_PROJECT_ID,
-      });
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async (): Promise<ListResourceTemplatesResult> => {
+      return {
+        resourceTemplates: this.resources.templates(),
+      };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request): Promise<ReadResourceResult> => {
+      return {
+        contents: [this.resources.read(request.params.uri)],
+      };
+    });
+
+    // Subscriptions belong to the session that made them
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.resources.subscribe(request.params.uri, server);
+      return {};
+    });
 
-      this.log("🔗 Connecting to browser session...");
-      this.browser = await chromium.connectOverCDP(session.connectUrl);
-      const contexts = this.browser.contexts();
-      const context = contexts.length > 0 ? contexts[0] : await this.browser.newContext();
-      this.page = context.pages().length > 0 ? context.pages()[0] : await context.newPage();
-      this.log("✅ Browser session ready");
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.resources.unsubscribe(request.params.uri, server);
+      return {};
+    });
+  }
+
+  private setupPromptHandlers(server: Server) {
+    server.setRequestHandler(ListPromptsRequestSchema, async (): Promise<ListPromptsResult> => {
+      return {
+        prompts: this.prompts.list(),
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request): Promise<GetPromptResult> => {
+      return this.prompts.get(request.params.name, request.params.arguments);
+    });
+  }
+
+  // logging/setLevel applies to the session that sent it
+  private setupLoggingHandlers(server: Server) {
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.sessions.set(server, request.params.level);
+      return {};
+    });
+  }
+
+  // A broken audit log (full disk, permissions) is reported but doesn't fail the call
+  private recordAudit(session: string | undefined, tool: string, args: Record<string, unknown>, secretTargets: Set<string>, startedAt: number, result: CallToolResult, cancelled: boolean) {
+    try {
+      this.audit?.record({ session, tool, arguments: args, secretTargets, startedAt, result, cancelled });
+    } catch (error) {
+      this.logAt("error", `❌ Could not write audit log ${this.audit?.file}:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  // Send a notification to every connected client, ignoring failures from closing sessions
+  private notify(send: (server: Server) => Promise<void>) {
+    for (const server of this.sessions.keys()) {
+      send(server).catch(() => {});
     }
   }
 
-  // Method to get logging state for external access
-  getVerboseLogging(): boolean {
-    return this.verboseLogging;
+  // `signal` aborts when the client cancels the call or the server shuts down
+  private toolContext(server: Server, extra: RequestHandlerExtra<ServerRequest, ServerNotification>, signal: AbortSignal, secretTargets: Set<string>): ToolContext {
+    const progressToken = extra._meta?.progressToken;
+    let progressCount = 0;
+
+    return {
+      signal,
+      reportProgress: async (message: string, progress?: number, total?: number) => {
+        if (progressToken === undefined || signal.aborted) {
+          return;
+        }
+        progressCount = progress ?? progressCount + 1;
+        await extra.sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress: progressCount, total, message },
+        }).catch(() => {});
+      },
+      log: (...args: any[]) => this.logToSession(server, "info", ...args),
+      logAt: (level: LoggingLevel, ...args: any[]) => this.logToSession(server, level, ...args),
+      resources: this.resources,
+      bashPolicy: this.bashPolicy,
+      jobs: this.jobs,
+      fsPolicy: this.fsPolicy,
+      browser: this.browser,
+      search: this.search,
+      fetcher: this.fetcher,
+      credentials: this.credentials,
+      getPage: () => this.browser.getPage(),
+      markSecretTarget: (target) => secretTargets.add(target),
+      // Sent through extra so that over HTTP the request travels on the tool
+      // call's own stream
+      createMessage: server.getClientCapabilities()?.sampling
+        ? (params) => extra.sendRequest({ method: "sampling/createMessage", params }, CreateMessageResultSchema, { signal, timeout: USER_REQUEST_TIMEOUT_MS })
+        : null,
+      elicit: server.getClientCapabilities()?.elicitation
+        ? (params) => this.elicit(extra, params, signal)
+        : null,
+    };
+  }
+
+  // Clients are trusted to show the form but not to fill it in correctly, so
+  // accepted content is checked against the schema that was asked for
+  private async elicit(extra: RequestHandlerExtra<ServerRequest, ServerNotification>, params: ElicitRequest["params"], signal: AbortSignal): Promise<ElicitResult> {
+    const result = await extra.sendRequest({ method: "elicitation/create", params }, ElicitResultSchema, { signal, timeout: USER_REQUEST_TIMEOUT_MS });
+    if (result.action !== "accept") {
+      return result;
+    }
+    const validation = validateSchema(params.requestedSchema, result.content ?? {});
+    if (!validation.valid) {
+      throw new Error(`The client's answer doesn't match the requested input:\n${formatErrors(validation.errors)}`);
+    }
+    return { ...result, content: validation.value };
+  }
+
+  // Load team-specific tool modules on top of the built-in ones
+  private loadPluginTools() {
+    if (!this.toolsDir) {
+      return;
+    }
+    const loaded = this.registry.loadFromDirectory(this.toolsDir);
+    console.error(`Loaded ${loaded.length} plugin tool(s) from ${this.toolsDir}: ${loaded.join(", ")}`);
+  }
+
+  // Hide tools whose prerequisites (credentials, browser, search index) are missing
+  private checkToolAvailability() {
+    const unavailable = this.registry.checkAvailability({
+      bashPolicy: this.bashPolicy,
+      fsPolicy: this.fsPolicy,
+      browser: this.browser,
+      search: this.search,
+      credentials: this.credentials,
+    });
+    for (const [name, reason] of unavailable) {
+      console.error(`⚠️  ${name} is unavailable: ${reason}`);
+    }
+  }
+
+  private loadPromptTemplates() {
+    if (!this.promptsDir) {
+      return;
+    }
+    const loaded = this.prompts.loadFromDirectory(this.promptsDir);
+    console.error(`Loaded ${loaded.length} prompt template(s) from ${this.promptsDir}: ${loaded.join(", ")}`);
   }
 
-  // Conditional logging method
   private log(...args: any[]) {
-    if (this.verboseLogging) {
-      console.log(...args);
+    this.logAt("info", ...args);
+  }
+
+  // Server-wide events: every client gets them as notifications/message at or
+  // above the level it set, and they are kept in the log://server resource
+  private logAt(level: LoggingLevel, ...args: any[]) {
+    this.emitLog(level, null, args);
+  }
+
+  // What one client's tool calls do is its own business: only that session is
+  // told, and over HTTP, where log://server is readable by every client, it
+  // stays out of the resource
+  private logToSession(session: Server, level: LoggingLevel, ...args: any[]) {
+    this.emitLog(level, session, args);
+  }
+
+  private emitLog(level: LoggingLevel, session: Server | null, args: any[]) {
+    const message = this.redactor.redact(args.map((arg) => typeof arg === "string" ? arg : JSON.stringify(arg)).join(" "));
+    if (!session || !this.httpServer) {
+      this.resources.appendLog(`[${level}] ${message}`);
+    }
+
+    for (const [server, minimum] of this.sessions) {
+      if ((!session || server === session) && LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum)) {
+        server.sendLoggingMessage({ level, logger: "server", data: message }).catch(() => {});
+      }
+    }
+    if (this.consoleLogLevel && LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.consoleLogLevel)) {
+      console.error(`[${level}]`, message);
+    }
+  }
+
+  async start(options: StartOptions = {}) {
+    this.loadPluginTools();
+    this.checkToolAvailability();
+    this.loadPromptTemplates();
+    this.registerCleanup();
+
+    if (options.http) {
+      await this.startHttp(options.port ?? 3000, options.host ?? "127.0.0.1", options.allowedHosts);
+    } else {
+      await this.startStdio();
     }
   }
 
-  async start() {
+  // Run the shutdown steps without ending the process, e.g. when the server
+  // is embedded in another program
+  stop(): Promise<void> {
+    return this.lifecycle.shutdown("stopped");
+  }
+
+  // Background jobs run in their own process groups, so they would outlive
+  // the server unless killed explicitly; the browser (and a billed Browserbase
+  // session) has to be closed too. Runs on signals, crashes and stdio close.
+  private registerCleanup() {
+    this.lifecycle.onShutdown("stop accepting connections", () => {
+      this.httpServer?.close();
+      if (this.sessionSweep) {
+        clearInterval(this.sessionSweep);
+      }
+    });
+    this.lifecycle.onShutdown("cancel running tool calls", () => {
+      this.inFlight.forEach((controller) => controller.abort());
+    });
+    this.lifecycle.onShutdown("kill background jobs", () => this.jobs.shutdown());
+    this.lifecycle.onShutdown("close browser session", () => this.browser.close());
+    this.lifecycle.onShutdown("flush logs", async () => {
+      await Promise.all([process.stdout, process.stderr].map((stream) =>
+        new Promise<void>((resolve) => stream.write("", () => resolve()))
+      ));
+    });
+    this.lifecycle.onShutdown("close transports", async () => {
+      await Promise.all(Array.from(this.sessions.keys()).map((server) => server.close().catch(() => {})));
+      // Drop idle keep-alive connections so the process can end
+      this.httpServer?.closeAllConnections();
+    });
+    this.lifecycle.handleProcessEvents();
+  }
+
+  private async startStdio() {
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    // The server process is done once the client closes stdio
+    await this.createServer(() => {
+      this.lifecycle.exit("client disconnected");
+    }).connect(transport);
+    // The transport only notices a close it initiates; a client that exits
+    // or crashes just ends stdin
+    process.stdin.once("end", () => this.lifecycle.exit("client disconnected"));
     console.error("Hello World MCP Server running on stdio");
   }
+
+  // Streamable HTTP: POST /mcp carries requests (answered as JSON or an SSE
+  // stream), GET /mcp opens a standalone SSE stream for server notifications,
+  // DELETE /mcp ends a session. Sessions are tracked by the Mcp-Session-Id header.
+  private async startHttp(port: number, host: string, allowedHosts?: string[]) {
+    this.consoleLogLevel = this.config.logging.level;
+    const loopback = ["127.0.0.1", "localhost", "::1"].includes(host) || host.startsWith("127.");
+    this.allowedHosts = allowedHosts?.map((name) => name.toLowerCase()) ?? (loopback ? LOOPBACK_HOSTS : null);
+    this.sessionSweep = setInterval(() => this.closeIdleSessions(), SESSION_SWEEP_INTERVAL_MS);
+    this.sessionSweep.unref();
+    this.httpServer = http.createServer((req, res) => {
+      this.handleHttpRequest(req, res).catch((error) => {
+        this.logAt("error", "❌ HTTP request failed:", error instanceof Error ? error.message : String(error));
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, -32603, "Internal server error");
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once("error", reject);
+      this.httpServer!.listen(port, host, () => resolve());
+    });
+    console.error(`Hello World MCP Server running on http://${host}:${port}/mcp`);
+  }
+
+  private async handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (url.pathname !== "/mcp") {
+      sendJsonRpcError(res, 404, -32601, "Not found");
+      return;
+    }
+    if (!this.isAllowedHost(req)) {
+      sendJsonRpcError(res, 403, -32000, "Forbidden: host or origin not allowed");
+      return;
+    }
+
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const existing = sessionId ? this.httpTransports.get(sessionId) : undefined;
+    if (existing) {
+      this.httpActivity.set(sessionId!, Date.now());
+    }
+
+    if (req.method !== "POST") {
+      if (!existing) {
+        sendJsonRpcError(res, 400, -32000, "Bad Request: missing or unknown session ID");
+        return;
+      }
+      await existing.handleRequest(req, res);
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req, MAX_HTTP_BODY_BYTES);
+    } catch (error) {
+      if (error instanceof BodyTooLarge) {
+        sendJsonRpcError(res, 413, -32600, `Request body larger than ${MAX_HTTP_BODY_BYTES} bytes`);
+      } else {
+        sendJsonRpcError(res, 400, -32700, "Parse error: invalid JSON body");
+      }
+      return;
+    }
+
+    if (existing) {
+      await existing.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: missing or unknown session ID");
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.httpTransports.set(id, transport);
+        this.httpActivity.set(id, Date.now());
+        this.log(`🔌 HTTP session started: ${shortSessionId(id)}`);
+      },
+    });
+    const server = this.createServer(() => {
+      if (transport.sessionId) {
+        this.httpTransports.delete(transport.sessionId);
+        this.httpActivity.delete(transport.sessionId);
+        this.log(`🔌 HTTP session closed: ${shortSessionId(transport.sessionId)}`);
+      }
+    });
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  // The Host header, and the Origin header browsers add, must name an allowed
+  // host; a page that rebinds its own name to 127.0.0.1 still sends its name
+  private isAllowedHost(req: http.IncomingMessage): boolean {
+    if (!this.allowedHosts) {
+      return true;
+    }
+    const hostname = (value: string) => {
+      try {
+        return new URL(value).hostname.toLowerCase();
+      } catch {
+        return null;
+      }
+    };
+    const host = req.headers.host ? hostname(`http://${req.headers.host}`) : null;
+    if (!host || !this.allowedHosts.includes(host)) {
+      return false;
+    }
+    const origin = req.headers.origin;
+    return origin === undefined || this.allowedHosts.includes(hostname(origin) ?? "");
+  }
+
+  private closeIdleSessions() {
+    const cutoff = Date.now() - HTTP_SESSION_IDLE_MS;
+    for (const [id, lastActive] of this.httpActivity) {
+      if (lastActive < cutoff) {
+        this.log(`🔌 Closing HTTP session ${shortSessionId(id)} after ${HTTP_SESSION_IDLE_MS / 60000} idle minutes`);
+        this.httpActivity.delete(id);
+        this.httpTransports.get(id)?.close().catch(() => {});
+      }
+    }
+  }
+}
+
+// Rejects with BodyTooLarge as soon as more than maxBytes arrive; the rest is
+// read and dropped so the response can still be sent
+function readJsonBody(req: http.IncomingMessage, maxBytes: number): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    if (Number(req.headers["content-length"]) > maxBytes) {
+      req.resume();
+      reject(new BodyTooLarge());
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.removeAllListeners("data");
+        req.removeAllListeners("end");
+        req.resume();
+        reject(new BodyTooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+// Every client sees the session log lines, and a whole session ID would let
+// one of them act as another
+function shortSessionId(id: string): string {
+  return `${id.slice(0, 8)}…`;
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
 }
 
-export { MCPServer };
+export { MCPServer, MCPServerOptions, StartOptions };
@@ -0,0 +1,394 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Tool, Prompt, CallToolResult, LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+import {
+  MCPClient,
+  ConnectOptions,
+  CallToolOptions,
+  ConnectionState,
+  ConnectionEvent,
+  LogSink,
+  consoleLogSink,
+  SamplingHandler,
+  ElicitationHandler,
+} from "./client";
+import { validateSchema, formatErrors } from "./schema";
+import { ConfigError } from "./config";
+
+// The MCP servers the chat talks to, from an `mcpServers` config in the format
+// other MCP clients use. Each server gets its own MCPClient. With more than one
+// server their tools and prompts are merged under names prefixed with the
+// server's, and calls are routed back by that name. A server that fails to
+// connect, or is lost for good later, is reported and left out; the others
+// carry on.
+
+interface StdioServerConfig {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  // Relative to the config file
+  cwd?: string;
+  // See ServerConfigEntry
+  trusted?: boolean;
+}
+
+interface HttpServerConfig {
+  url: string;
+  headers?: Record<string, string>;
+  trusted?: boolean;
+}
+
+// A server is trusted when the user says so: only then do its tools' read-only
+// and destructive annotations decide whether a call needs approval, since any
+// server can label its tools as it likes.
+
+type ServerConfigEntry = StdioServerConfig | HttpServerConfig;
+
+// Keyed by server name, which becomes the prefix of its tools' names
+type McpServersConfig = Record<string, ServerConfigEntry>;
+
+interface ServerStatus {
+  name: string;
+  // Command line or URL
+  target: string;
+  state: ConnectionState;
+  tools: number;
+  // Why the server isn't connected
+  error?: string;
+}
+
+// Connection state changes of one server
+type ServerStateHandler = (server: string, event: ConnectionEvent) => void;
+
+// A SamplingHandler told which server is asking
+type ServerSamplingHandler = (server: string, ...request: Parameters<SamplingHandler>) => ReturnType<SamplingHandler>;
+
+const DEFAULT_SERVERS_FILE = "mcp-servers.json";
+// This project's own server, used when no config file is found
+const DEFAULT_SERVERS: McpServersConfig = {
+  local: { command: "node", args: ["dist/index.js", "server"], trusted: true },
+};
+
+// Between server and tool name; Claude allows only letters, digits, _ and - in
+// tool names, and at most 64 of them
+const NAME_SEPARATOR = "__";
+const MAX_TOOL_NAME_LENGTH = 64;
+
+const STRING_MAP_SCHEMA = { type: "object", additionalProperties: { type: "string" } };
+
+const SERVERS_SCHEMA = {
+  type: "object",
+  properties: {
+    mcpServers: {
+      type: "object",
+      additionalProperties: {
+        type: "object",
+        properties: {
+          command: { type: "string", minLength: 1 },
+          args: { type: "array", items: { type: "string" } },
+          env: STRING_MAP_SCHEMA,
+          cwd: { type: "string" },
+          url: { type: "string", minLength: 1 },
+          headers: STRING_MAP_SCHEMA,
+          trusted: { type: "boolean" },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["mcpServers"],
+};
+
+// Read the servers from --servers, MCP_SERVERS_CONFIG or ./mcp-servers.json.
+// An explicitly named file must exist; without any file the default is this
+// project's own server. ${VAR} in args, env, url and headers is replaced with
+// the environment variable, so secrets can stay out of the file.
+function loadServersConfig(file?: string): McpServersConfig {
+  const named = file || process.env.MCP_SERVERS_CONFIG;
+  const configFile = named || (fs.existsSync(DEFAULT_SERVERS_FILE) ? DEFAULT_SERVERS_FILE : undefined);
+  if (!configFile) {
+    return DEFAULT_SERVERS;
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(fs.readFileSync(configFile, "utf8"));
+  } catch (error) {
+    throw new ConfigError(`Cannot read servers file ${configFile}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const validation = validateSchema(SERVERS_SCHEMA, parsed);
+  if (!validation.valid) {
+    throw new ConfigError(`Invalid servers file ${configFile}:\n${formatErrors(validation.errors)}`);
+  }
+
+  const invalid = (message: string) => new ConfigError(`Invalid servers file ${configFile}:\n- ${message}`);
+  const base = path.dirname(path.resolve(configFile));
+  const servers: McpServersConfig = {};
+  for (const [name, entry] of Object.entries<any>(parsed.mcpServers)) {
+    if (!/^[A-Za-z0-9_-]+$/.test(name) || name.includes(NAME_SEPARATOR)) {
+      throw invalid(`mcpServers.${name}: names may contain only letters, digits, - and single _`);
+    }
+    if (!entry.command === !entry.url) {
+      throw invalid(`mcpServers.${name}: must have exactly one of command or url`);
+    }
+    const expand = (value: string) => value.replace(/\$\{(\w+)\}/g, (match, variable) => {
+      const replacement = process.env[variable];
+      if (replacement === undefined) {
+        throw invalid(`mcpServers.${name}: environment variable ${variable} is not set`);
+      }
+      return replacement;
+    });
+    const expandAll = (map?: Record<string, string>) =>
+      map ? Object.fromEntries(Object.entries(map).map(([key, value]) => [key, expand(value)])) : undefined;
+
+    if (entry.url) {
+      if (entry.args || entry.env || entry.cwd) {
+        throw invalid(`mcpServers.${name}: args, env and cwd only apply to servers with a command`);
+      }
+      const url = expand(entry.url);
+      if (!/^https?:\/\//.test(url)) {
+        throw invalid(`mcpServers.${name}.url: must be an http(s) URL`);
+      }
+      servers[name] = withoutUndefined({ url, headers: expandAll(entry.headers), trusted: entry.trusted });
+    } else {
+      if (entry.headers) {
+        throw invalid(`mcpServers.${name}: headers only apply to servers with a url`);
+      }
+      servers[name] = withoutUndefined({
+        command: entry.command,
+        args: entry.args?.map(expand),
+        env: expandAll(entry.env),
+        cwd: entry.cwd !== undefined ? path.resolve(base, entry.cwd) : undefined,
+        trusted: entry.trusted,
+      });
+    }
+  }
+  if (Object.keys(servers).length === 0) {
+    throw invalid("mcpServers: no servers are configured");
+  }
+  return servers;
+}
+
+interface Route {
+  server: string;
+  // The name the server knows the tool or prompt by
+  name: string;
+}
+
+class ServerPool {
+  private clients = new Map<string, MCPClient>();
+  private errors = new Map<string, string>();
+  // Each server's tools under their own names, in config order
+  private serverTools = new Map<string, Tool[]>();
+  private tools: Tool[] = [];
+  private toolRoutes = new Map<string, Route>();
+  private promptRoutes = new Map<string, Route>();
+  private stateHandler?: ServerStateHandler;
+
+  constructor(private servers: McpServersConfig) {
+    for (const name of Object.keys(servers)) {
+      const client = new MCPClient();
+      client.setConnectionStateHandler((event) => this.stateChanged(name, event));
+      this.clients.set(name, client);
+      this.serverTools.set(name, []);
+    }
+  }
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  // Names are only prefixed when there is more than one server, so a single
+  // server's tools keep the names approval rules and prompts refer to
+  private get namespaced(): boolean {
+    return this.clients.size > 1;
+  }
+
+  // Connect to every server and list its tools. Returns the servers that
+  // failed; they stay out of listTools() and routing.
+  async connect(): Promise<ServerStatus[]> {
+    await Promise.all([...this.clients].map(async ([name, client]) => {
+      try {
+        await client.connect(toConnectOptions(this.servers[name]));
+        this.serverTools.set(name, await client.listTools());
+      } catch (error) {
+        this.errors.set(name, describeError(error));
+      }
+    }));
+    this.routeTools();
+    return this.status().filter((status) => status.state !== "connected");
+  }
+
+  // Called with every server's connection state changes. Tools are already
+  // re-routed when it runs, so listTools() is up to date.
+  setConnectionStateHandler(handler: ServerStateHandler) {
+    this.stateHandler = handler;
+  }
+
+  // Tools of every connected server, under their routed names
+  listTools(): Tool[] {
+    return [...this.tools];
+  }
+
+  async callTool(name: string, args: any = {}, options: CallToolOptions = {}): Promise<CallToolResult | undefined> {
+    const route = this.toolRoutes.get(name);
+    if (!route) {
+      return { content: [{ type: "text", text: `Unknown tool: ${name}` }], isError: true };
+    }
+    return this.clients.get(route.server)!.callTool(route.name, args, options);
+  }
+
+  // Whether the server a tool belongs to is trusted with its annotations
+  isTrusted(name: string): boolean {
+    const route = this.toolRoutes.get(name);
+    return route !== undefined && this.servers[route.server].trusted === true;
+  }
+
+  // Prompt templates of every connected server, under routed names like tools
+  async listPrompts(): Promise<Prompt[]> {
+    const prompts: Prompt[] = [];
+    this.promptRoutes.clear();
+    for (const [server, client] of this.connectedClients()) {
+      for (const prompt of await client.listPrompts()) {
+        const name = this.routeName(server, prompt.name, this.promptRoutes);
+        this.promptRoutes.set(name, { server, name: prompt.name });
+        prompts.push({ ...prompt, name });
+      }
+    }
+    return prompts;
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}) {
+    if (this.promptRoutes.size === 0) {
+      await this.listPrompts();
+    }
+    const route = this.promptRoutes.get(name);
+    if (!route) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+    return this.clients.get(route.server)!.getPrompt(route.name, args);
+  }
+
+  // Applied to every server that supports logging; false if none does
+  async setServerLogLevel(level: LoggingLevel): Promise<boolean> {
+    const results = await Promise.all(this.connectedClients().map(([, client]) => client.setServerLogLevel(level)));
+    return results.some(Boolean);
+  }
+
+  // With several servers the logger name is prefixed with the server's
+  setLogSink(sink: LogSink = consoleLogSink) {
+    for (const [name, client] of this.clients) {
+      client.setLogSink(this.namespaced
+        ? (message) => sink({ ...message, logger: message.logger ? `${name}/${message.logger}` : name })
+        : sink);
+    }
+  }
+
+  // Handlers must be set before connect so the capabilities are advertised
+  setSamplingHandler(handler: ServerSamplingHandler) {
+    this.clients.forEach((client, name) => client.setSamplingHandler((params, signal) => handler(name, params, signal)));
+  }
+
+  setElicitationHandler(handler: ElicitationHandler) {
+    this.clients.forEach((client) => client.setElicitationHandler(handler));
+  }
+
+  setVerboseLogging(verbose: boolean) {
+    this.clients.forEach((client) => client.setVerboseLogging(verbose));
+  }
+
+  status(): ServerStatus[] {
+    return Object.entries(this.servers).map(([name, entry]) => {
+      const state = this.clients.get(name)!.connectionState;
+      const error = this.errors.get(name);
+      return {
+        name,
+        target: "url" in entry ? entry.url : [entry.command, ...(entry.args ?? [])].join(" "),
+        state,
+        tools: this.serverTools.get(name)!.length,
+        ...(state !== "connected" && error !== undefined ? { error } : {}),
+      };
+    });
+  }
+
+  async close() {
+    await Promise.all([...this.clients.values()].map((client) => client.close().catch(() => {})));
+  }
+
+  private connectedClients(): [string, MCPClient][] {
+    return [...this.clients].filter(([, client]) => client.connectionState === "connected");
+  }
+
+  // A reconnected server may offer different tools; one given up on offers none
+  private stateChanged(server: string, event: ConnectionEvent) {
+    if (event.state === "connected") {
+      this.errors.delete(server);
+    } else if (event.reason && (event.state === "failed" || event.state === "reconnecting")) {
+      this.errors.set(server, event.reason);
+    }
+    if (event.tools || (event.state === "failed" && event.attempt !== undefined)) {
+      this.serverTools.set(server, event.tools ?? []);
+      this.routeTools();
+    }
+    this.stateHandler?.(server, event);
+  }
+
+  // In config order, so names are assigned the same way every time
+  private routeTools() {
+    this.tools = [];
+    this.toolRoutes.clear();
+    for (const [server, tools] of this.serverTools) {
+      for (const tool of tools) {
+        const name = this.routeName(server, tool.name, this.toolRoutes);
+        this.toolRoutes.set(name, { server, name: tool.name });
+        this.tools.push(name === tool.name ? tool : { ...tool, name });
+      }
+    }
+  }
+
+  // server__tool, cut down to what Claude accepts; a clash left after that
+  // gets a numbered suffix
+  private routeName(server: string, name: string, taken: Map<string, Route>): string {
+    if (!this.namespaced) {
+      return name;
+    }
+    const base = `${server}${NAME_SEPARATOR}${name.replace(/[^A-Za-z0-9_-]/g, "_")}`.slice(0, MAX_TOOL_NAME_LENGTH);
+    let candidate = base;
+    for (let n = 2; taken.has(candidate); n++) {
+      const suffix = `_${n}`;
+      candidate = base.slice(0, MAX_TOOL_NAME_LENGTH - suffix.length) + suffix;
+    }
+    return candidate;
+  }
+}
+
+function toConnectOptions(entry: ServerConfigEntry): ConnectOptions {
+  return "url" in entry
+    ? { url: entry.url, headers: entry.headers, trusted: entry.trusted ?? false }
+    : { command: entry.command, args: entry.args ?? [], env: entry.env, cwd: entry.cwd, trusted: entry.trusted ?? false };
+}
+
+// fetch() and spawn report the actual reason in `cause`
+function describeError(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return String(error);
+  }
+  return error.cause instanceof Error ? `${error.message}: ${error.cause.message}` : error.message;
+}
+
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+}
+
+export {
+  ServerPool,
+  ServerStatus,
+  ServerStateHandler,
+  ServerSamplingHandler,
+  McpServersConfig,
+  ServerConfigEntry,
+  StdioServerConfig,
+  HttpServerConfig,
+  loadServersConfig,
+  DEFAULT_SERVERS_FILE,
+};
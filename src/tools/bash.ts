@@ -0,0 +1,110 @@
+import { ToolDefinition, ToolContext, textResult, errorResult } from "./registry";
+import { runBash, checkCommand, confirmationPattern, PolicyViolation } from "../sandbox";
+
+// Keep the output around as a command-output:// resource, since the tool
+// result may be cut down further by the per-tool maxOutputChars limit
+function publishOutput(context: ToolContext, command: string, output: string): string {
+  return context.resources.publish("command-output", {
+    name: `Output of: ${command.length > 60 ? `${command.slice(0, 57)}...` : command}`,
+    mimeType: "text/plain",
+    text: output,
+  });
+}
+
+// Ask the user about commands matching the policy's confirmPatterns. Returns
+// why the command must not run, or null to go ahead. Throws PolicyViolation
+// first if the command is blocked anyway, so nobody is asked in vain.
+async function confirmCommand(command: string, context: ToolContext): Promise<string | null> {
+  checkCommand(command, context.bashPolicy);
+  const pattern = confirmationPattern(command, context.bashPolicy);
+  if (!pattern) {
+    return null;
+  }
+  if (!context.elicit) {
+    return `it needs the user's confirmation (matches /${pattern}/) and the client can't ask for it`;
+  }
+
+  const result = await context.elicit({
+    message: `Run this command?\n\n  ${command}\n\nIt matches /${pattern}/ in the server's policy, so it needs your confirmation.`,
+    requestedSchema: {
+      type: "object",
+      properties: {
+        confirm: { type: "boolean", title: "Run it", default: false },
+      },
+      required: ["confirm"],
+    },
+  });
+  context.log(`🙋 Confirmation of "${command}": ${result.action}${result.action === "accept" ? ` (${result.content?.confirm ? "run" : "don't run"})` : ""}`);
+  if (result.action === "cancel") {
+    return "the user cancelled the confirmation";
+  }
+  if (result.action === "reject" || !result.content?.confirm) {
+    return "the user declined to run it";
+  }
+  return null;
+}
+
+const executeBash: ToolDefinition = {
+  name: "execute_bash",
+  description: "Executes a bash command and returns the output. Commands are subject to the server's policy: allow/deny lists, a confined working directory, a scrubbed environment, a timeout and an output cap.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      command: {
+        type: "string",
+        description: "The bash command to execute",
+      },
+      cwd: {
+        type: "string",
+        description: "Directory to run in, relative to the server's working directory",
+      },
+    },
+    required: ["command"],
+  },
+  annotations: { destructiveHint: true, openWorldHint: true },
+  handler: async (args, context) => {
+    const command = args.command as string;
+    const policy = context.bashPolicy;
+
+    try {
+      const refusal = await confirmCommand(command, context);
+      if (refusal) {
+        return errorResult(`Command not run: ${refusal}\nCommand: ${command}`);
+      }
+
+      // Stream output to the caller as progress notifications while it runs
+      const result = await runBash(command, policy, {
+        cwd: args.cwd as string | undefined,
+        signal: context.signal,
+        onOutput: (stream, chunk) => {
+          context.reportProgress(`[${stream}] ${chunk}`);
+        },
+      });
+      let output = `Command: ${command}\nOutput:\n${result.stdout}${result.stderr ? `\nError:\n${result.stderr}` : ''}`;
+      if (result.truncated) {
+        output += `\n[Output truncated to ${policy.maxOutputBytes} bytes]`;
+      }
+      const uri = publishOutput(context, command, output);
+
+      if (result.cancelled) {
+        return errorResult(`${output}\nError: Command was cancelled\nOutput resource: ${uri}`);
+      }
+      if (result.timedOut) {
+        return errorResult(`${output}\nError: Command timed out after ${policy.timeoutMs}ms and was killed\nOutput resource: ${uri}`);
+      }
+      if (result.exitCode !== 0) {
+        const status = result.signal ? `killed by ${result.signal}` : `exit code ${result.exitCode}`;
+        return errorResult(`${output}\nError: Command failed with ${status}\nOutput resource: ${uri}`);
+      }
+      return textResult(`${output}\nOutput resource: ${uri}`);
+    } catch (error) {
+      if (error instanceof PolicyViolation) {
+        context.logAt("warning", `🚫 Blocked command: ${command} (${error.message})`);
+        return errorResult(`Command blocked by policy: ${error.message}\nCommand: ${command}`);
+      }
+      return errorResult(`Command: ${command}\nError: ${error.message}`);
+    }
+  },
+};
+
+export { executeBash, confirmCommand };
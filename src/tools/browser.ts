@@ -0,0 +1,336 @@
+import { ToolDefinition, textResult, structuredResult, errorResult } from "./registry";
+import { abortable } from "./abortable";
+import { resolveTarget, isSecretField, refSchema, needsBrowser } from "./page";
+
+interface NavigateOutput {
+  // Where the page ended up after redirects
+  url: string;
+  title: string;
+  // HTTP status of the main document; null for file:// and same-document navigations
+  status: number | null;
+}
+
+interface GetTextOutput {
+  target: string;
+  text: string;
+}
+
+const browserNavigate: ToolDefinition = {
+  name: "browser_navigate",
+  description: "Navigate the browser to a URL (http(s), file:// or localhost pages)",
+  inputSchema: {
+    type: "object",
+    properties: {
+      url: {
+        type: "string",
+        description: "The URL to navigate to",
+      },
+    },
+    required: ["url"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      url: { type: "string", description: "Final URL after redirects" },
+      title: { type: "string" },
+      status: { type: ["integer", "null"], description: "HTTP status of the main document, if any" },
+    },
+    required: ["url", "title", "status"],
+  },
+  annotations: { destructiveHint: false, openWorldHint: true },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    const navUrl = args.url as string;
+
+    try {
+      await context.reportProgress("Connecting to browser");
+      const page = await abortable(context.getPage(), context.signal);
+      await context.reportProgress(`Navigating to ${navUrl}`);
+      // Stopping the page load makes goto settle right away on cancellation
+      // Playwright's Response, or null when no request was made
+      const response: any = await abortable(
+        page.goto(navUrl, { waitUntil: 'domcontentloaded', timeout: 30000 }),
+        context.signal,
+        () => page.evaluate(() => window.stop()).catch(() => {})
+      );
+      const output: NavigateOutput = {
+        url: page.url(),
+        title: await page.title(),
+        status: response ? response.status() : null,
+      };
+      return structuredResult(
+        `Successfully navigated to: ${output.url}${output.status !== null ? ` (HTTP ${output.status})` : ""}\nPage title: ${output.title}`,
+        output
+      );
+    } catch (error) {
+      return errorResult(`Error navigating to ${navUrl}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+};
+
+const browserClick: ToolDefinition = {
+  name: "browser_click",
+  description: "Click on an element in the browser using a CSS selector or a ref from browser_snapshot",
+  inputSchema: {
+    type: "object",
+    properties: {
+      selector: {
+        type: "string",
+        description: "CSS selector for the element to click",
+      },
+      ref: refSchema,
+    },
+  },
+  annotations: { destructiveHint: true, openWorldHint: true },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    const clickSelector = args.ref ? `ref ${args.ref}` : args.selector;
+
+    try {
+      const page = await context.getPage();
+      const target = await resolveTarget(page, args);
+      await page.waitForSelector(target.selector, { timeout: 10000 });
+      await page.click(target.selector);
+      return textResult(`Successfully clicked element: ${target.label}`);
+    } catch (error) {
+      return errorResult(`Error clicking element ${clickSelector}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+};
+
+const browserType: ToolDefinition = {
+  name: "browser_type",
+  description: "Type text into an input field using a CSS selector or a ref from browser_snapshot. For passwords and other values only the user should know, pass askUser instead of text: the user is asked for the value directly and it never passes through the conversation.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      selector: {
+        type: "string",
+        description: "CSS selector for the input field",
+      },
+      ref: refSchema,
+      text: {
+        type: "string",
+        description: "Text to type",
+      },
+      askUser: {
+        type: "string",
+        minLength: 1,
+        description: "Instead of text: what to ask the user for, e.g. \"password for example.com\"",
+      },
+    },
+  },
+  annotations: { destructiveHint: true, idempotentHint: true, openWorldHint: true },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    const typeSelector = args.ref ? `ref ${args.ref}` : args.selector;
+    if ((args.text === undefined) === (args.askUser === undefined)) {
+      return errorResult("Pass either text or askUser");
+    }
+
+    try {
+      const page = await context.getPage();
+      const target = await resolveTarget(page, args);
+      await page.waitForSelector(target.selector, { timeout: 10000 });
+
+      if (args.askUser === undefined) {
+        const typeText = args.text as string;
+        const secret = await isSecretField(page, target.selector);
+        if (secret) {
+          context.markSecretTarget(args.ref ?? args.selector);
+        }
+        await page.fill(target.selector, typeText);
+        return textResult(`Successfully typed ${secret ? `${typeText.length} characters` : `"${typeText}"`} into element: ${target.label}`);
+      }
+
+      if (!context.elicit) {
+        return errorResult("The client can't ask the user for input; ask them in the conversation or pass text instead");
+      }
+      const result = await context.elicit({
+        message: `Enter the ${args.askUser}.\nIt will be typed into ${target.label} on ${page.url()}.`,
+        requestedSchema: {
+          type: "object",
+          properties: {
+            // writeOnly asks the client not to echo what the user types
+            value: { type: "string", title: args.askUser, writeOnly: true },
+          },
+          required: ["value"],
+        },
+      });
+      if (result.action !== "accept") {
+        return errorResult(`The user ${result.action === "cancel" ? "cancelled" : "declined"} entering the ${args.askUser}; nothing was typed`);
+      }
+      await page.fill(target.selector, String(result.content?.value ?? ""));
+      // The value stays out of the result, and so out of the conversation
+      return textResult(`Typed the ${args.askUser} the user entered into element: ${target.label}`);
+    } catch (error) {
+      return errorResult(`Error typing into element ${typeSelector}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+};
+
+// Resize a screenshot inside the page with a canvas, so no image library is
+// needed on the server. Returns null when the image is already small enough.
+async function downscaleScreenshot(page: any, data: string, mimeType: string, maxWidth: number): Promise<string | null> {
+  return page.evaluate(async ({ data, mimeType, maxWidth }: { data: string; mimeType: string; maxWidth: number }) => {
+    const image = new Image();
+    image.src = `data:${mimeType};base64,${data}`;
+    await image.decode();
+    if (image.naturalWidth <= maxWidth) {
+      return null;
+    }
+    const canvas = document.createElement("canvas");
+    canvas.width = maxWidth;
+    canvas.height = Math.round(image.naturalHeight * (maxWidth / image.naturalWidth));
+    canvas.getContext("2d")!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL(mimeType, 0.85).split(",")[1];
+  }, { data, mimeType, maxWidth });
+}
+
+const browserScreenshot: ToolDefinition = {
+  name: "browser_screenshot",
+  description: "Take a screenshot of the current browser page (or one element or region of it) and return the image",
+  inputSchema: {
+    type: "object",
+    properties: {
+      selector: {
+        type: "string",
+        description: "CSS selector of a single element to capture instead of the page",
+      },
+      clip: {
+        type: "object",
+        description: "Region of the page to capture, in CSS pixels",
+        properties: {
+          x: { type: "number", minimum: 0 },
+          y: { type: "number", minimum: 0 },
+          width: { type: "number", minimum: 1 },
+          height: { type: "number", minimum: 1 },
+        },
+        required: ["x", "y", "width", "height"],
+      },
+      fullPage: {
+        type: "boolean",
+        description: "Capture the whole scrollable page instead of just the viewport",
+        default: false,
+      },
+      format: {
+        type: "string",
+        enum: ["png", "jpeg"],
+        description: "Image format; jpeg is much smaller for photos and long pages",
+        default: "png",
+      },
+      maxWidth: {
+        type: "integer",
+        minimum: 100,
+        maximum: 4000,
+        description: "Downscale the returned image to at most this many pixels wide",
+        default: 1280,
+      },
+    },
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    const mimeType = args.format === "jpeg" ? "image/jpeg" : "image/png";
+    const options: Record<string, any> = {
+      type: args.format,
+      // Capture in CSS pixels so high-DPI pages don't double in size
+      scale: "css",
+      ...(args.format === "jpeg" ? { quality: 80 } : {}),
+    };
+
+    try {
+      const page = await context.getPage();
+      let screenshot: Buffer;
+      if (args.selector) {
+        const element = await page.waitForSelector(args.selector, { timeout: 10000 });
+        screenshot = await element.screenshot(options);
+      } else {
+        screenshot = await page.screenshot({ ...options, fullPage: args.fullPage, clip: args.clip });
+      }
+
+      // Keep the full-resolution capture as a resource; the model gets the downscaled one
+      const original = screenshot.toString("base64");
+      const uri = context.resources.publish("screenshot", {
+        name: `Screenshot of ${page.url()}`,
+        mimeType,
+        blob: original,
+      });
+
+      let data = original;
+      try {
+        data = (await downscaleScreenshot(page, original, mimeType, args.maxWidth)) ?? original;
+      } catch (error) {
+        // e.g. the page's Content-Security-Policy blocks data: images
+        context.logAt("warning", `⚠️  Could not downscale screenshot: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      return {
+        content: [
+          {
+            type: "image",
+            data,
+            mimeType,
+          },
+          {
+            type: "text",
+            text: `Screenshot of ${page.url()}${args.selector ? ` (element ${args.selector})` : ""} (${screenshot.length} bytes). Full resolution available as resource: ${uri}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return errorResult(`Error taking screenshot: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+};
+
+const browserGetText: ToolDefinition = {
+  name: "browser_get_text",
+  description: "Get text content from an element using a CSS selector or a ref from browser_snapshot",
+  inputSchema: {
+    type: "object",
+    properties: {
+      selector: {
+        type: "string",
+        description: "CSS selector for the element",
+      },
+      ref: refSchema,
+    },
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      target: { type: "string", description: "The selector or ref that was read" },
+      text: { type: "string", description: "The element's text content; empty if it has none" },
+    },
+    required: ["target", "text"],
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    const textSelector = args.ref ? `ref ${args.ref}` : args.selector;
+
+    try {
+      const page = await context.getPage();
+      const target = await resolveTarget(page, args);
+      await page.waitForSelector(target.selector, { timeout: 10000 });
+      const output: GetTextOutput = {
+        target: textSelector,
+        text: (await page.textContent(target.selector)) ?? "",
+      };
+      return structuredResult(`Text from ${textSelector}: ${output.text || "Element found but contains no text"}`, output);
+    } catch (error) {
+      return errorResult(`Error getting text from element ${textSelector}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+};
+
+const browserTools: ToolDefinition[] = [
+  browserNavigate,
+  browserClick,
+  browserType,
+  browserScreenshot,
+  browserGetText,
+];
+
+export { browserTools, NavigateOutput, GetTextOutput };
@@ -0,0 +1,193 @@
+import { ToolDefinition, structuredResult, errorResult } from "./registry";
+import { FetchedPage } from "../fetcher";
+import { htmlToMarkdown } from "../markdown";
+
+interface FetchUrlOutput {
+  url: string;
+  finalUrl: string;
+  status: number;
+  contentType: string;
+  title?: string;
+  fromCache: boolean;
+  // The response was larger than the server's size limit and was cut off
+  truncated: boolean;
+  // Length of the whole converted content; `content` is the part starting at `offset`
+  totalLength: number;
+  offset: number;
+  // Where the next part starts, if there is one
+  nextOffset?: number;
+  content: string;
+}
+
+const HTML_TYPES = ["text/html", "application/xhtml+xml"];
+const ERROR_EXCERPT_LENGTH = 500;
+
+// The response as text: HTML converted to Markdown, JSON pretty-printed, anything else as is
+function convert(page: FetchedPage, format: "markdown" | "raw", mainContent: boolean): { title?: string; content: string } {
+  if (format === "raw") {
+    return { content: page.body };
+  }
+  if (HTML_TYPES.includes(page.contentType)) {
+    const { title, markdown } = htmlToMarkdown(page.body, { baseUrl: page.finalUrl, mainContent });
+    return { title: title || undefined, content: markdown };
+  }
+  if (page.contentType === "application/json" || page.contentType.endsWith("+json")) {
+    try {
+      return { content: JSON.stringify(JSON.parse(page.body), null, 2) };
+    } catch {}
+  }
+  return { content: page.body };
+}
+
+// Arguments fetch_url and post_url share
+const requestProperties = {
+  url: {
+    type: "string",
+    minLength: 1,
+    description: "Absolute http(s) URL",
+  },
+  headers: {
+    type: "object",
+    additionalProperties: { type: "string" },
+    description: "Extra request headers",
+  },
+  format: {
+    type: "string",
+    enum: ["markdown", "raw"],
+    description: "markdown converts HTML to Markdown and pretty-prints JSON; raw returns the response text unchanged",
+    default: "markdown",
+  },
+  mainContent: {
+    type: "boolean",
+    description: "Keep only the main content of HTML pages, dropping navigation, headers, footers and sidebars",
+    default: true,
+  },
+  offset: {
+    type: "integer",
+    minimum: 0,
+    description: "Character offset to start from, for reading long content in parts",
+    default: 0,
+  },
+  maxLength: {
+    type: "integer",
+    minimum: 100,
+    maximum: 100000,
+    description: "Maximum number of characters to return",
+    default: 20000,
+  },
+};
+
+const outputSchema: ToolDefinition["outputSchema"] = {
+  type: "object",
+  properties: {
+    url: { type: "string" },
+    finalUrl: { type: "string", description: "URL after redirects" },
+    status: { type: "integer" },
+    contentType: { type: "string" },
+    title: { type: "string" },
+    fromCache: { type: "boolean" },
+    truncated: { type: "boolean", description: "The response exceeded the server's size limit and was cut off" },
+    totalLength: { type: "integer", description: "Length of the whole converted content" },
+    offset: { type: "integer" },
+    nextOffset: { type: "integer", description: "Offset of the next part, if there is more" },
+    content: { type: "string" },
+  },
+  required: ["url", "finalUrl", "status", "contentType", "fromCache", "truncated", "totalLength", "offset", "content"],
+};
+
+// Handler of both tools; only the method differs
+function fetchHandler(method: "GET" | "POST"): ToolDefinition["handler"] {
+  return async (args, context) => {
+    let page: FetchedPage;
+    try {
+      await context.reportProgress(`Fetching ${args.url}`);
+      page = await context.fetcher.fetch({
+        url: args.url,
+        method,
+        headers: args.headers,
+        body: args.body,
+        refresh: args.refresh,
+      }, context.signal);
+    } catch (error) {
+      return errorResult(`Error fetching ${args.url}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    context.log(`🌐 ${method} ${page.finalUrl}: ${page.status} ${page.contentType}${page.fromCache ? " (cached)" : ""}`);
+
+    const { title, content } = convert(page, args.format, args.mainContent);
+    if (page.status >= 400) {
+      const excerpt = content.slice(0, ERROR_EXCERPT_LENGTH);
+      return errorResult(`HTTP ${page.status} ${page.statusText} from ${page.finalUrl}${excerpt ? `\n\n${excerpt}` : ""}`);
+    }
+    if (args.offset > 0 && args.offset >= content.length) {
+      return errorResult(`Offset ${args.offset} is past the end of the content (${content.length} characters)`);
+    }
+
+    const end = Math.min(args.offset + args.maxLength, content.length);
+    const output: FetchUrlOutput = {
+      url: args.url,
+      finalUrl: page.finalUrl,
+      status: page.status,
+      contentType: page.contentType,
+      ...(title ? { title } : {}),
+      fromCache: page.fromCache,
+      truncated: page.truncated,
+      totalLength: content.length,
+      offset: args.offset,
+      ...(end < content.length ? { nextOffset: end } : {}),
+      content: content.slice(args.offset, end),
+    };
+
+    const notes = [
+      `URL: ${page.finalUrl} (HTTP ${page.status}, ${page.contentType}${page.fromCache ? `, cached ${page.fetchedAt}` : ""})`,
+      args.offset > 0 || end < content.length
+        ? `Characters ${args.offset}-${end} of ${content.length}${end < content.length ? `; call again with offset ${end} for more` : ""}.`
+        : null,
+      page.truncated ? "The response was larger than the server's size limit and has been cut off." : null,
+    ].filter(Boolean);
+    const heading = title ? `# ${title}\n\n` : "";
+    return structuredResult(`${heading}${notes.join("\n")}\n\n${output.content}`, output);
+  };
+}
+
+const fetchUrl: ToolDefinition = {
+  name: "fetch_url",
+  description: "Fetch a web page or other text resource over HTTP(S) with GET, without starting a browser. HTML is returned as Markdown, by default only the page's main content. Long content comes in parts: call again with nextOffset to read on. Responses are cached for a while; pass refresh to fetch again. Use post_url to send data, and the browser_* tools for pages that need JavaScript or interaction.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...requestProperties,
+      refresh: {
+        type: "boolean",
+        description: "Bypass the cache",
+        default: false,
+      },
+    },
+    required: ["url"],
+  },
+  outputSchema,
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  handler: fetchHandler("GET"),
+};
+
+// Separate from fetch_url so that sending data, which may change things on
+// the other side, goes through approval
+const postUrl: ToolDefinition = {
+  name: "post_url",
+  description: "Send an HTTP(S) POST request, e.g. to submit a form or call an API, and return the response like fetch_url does. The request is sent again for every call, including calls with nextOffset to read on; responses aren't cached.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...requestProperties,
+      body: {
+        type: "string",
+        description: "Request body, e.g. JSON or form data; set the matching Content-Type in headers",
+      },
+    },
+    required: ["url"],
+  },
+  outputSchema,
+  annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+  handler: fetchHandler("POST"),
+};
+
+export { fetchUrl, postUrl, FetchUrlOutput };
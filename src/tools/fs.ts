@@ -0,0 +1,462 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ToolDefinition, ToolContext, textResult, errorResult } from "./registry";
+import { PathNotAllowed, resolveInRoots, displayPath, assertWritable, isBinary } from "../workspace";
+import { PatchError, parsePatch, applyHunks } from "../patch";
+
+const MAX_OUTPUT_CHARS = 100000;
+const SKIPPED_DIRECTORIES = new Set([".git", "node_modules"]);
+
+// Refusals and bad input come back as isError results; anything else is a bug
+// and goes to the registry's generic handler
+function refusal(error: unknown) {
+  if (error instanceof PathNotAllowed) {
+    return errorResult(`Access denied: ${error.message}`);
+  }
+  if (error instanceof PatchError) {
+    return errorResult(`Patch not applied: ${error.message}`);
+  }
+  // ENOENT, EACCES, EISDIR and friends
+  if (error instanceof Error && typeof (error as NodeJS.ErrnoException).code === "string") {
+    return errorResult(error.message);
+  }
+  throw error;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function readTextFile(context: ToolContext, file: string): string {
+  const stat = fs.statSync(file);
+  if (!stat.isFile()) {
+    throw new PathNotAllowed(`${displayPath(context.fsPolicy, file)} is not a regular file`);
+  }
+  if (stat.size > context.fsPolicy.maxFileBytes) {
+    throw new PathNotAllowed(`${displayPath(context.fsPolicy, file)} is ${formatSize(stat.size)}, over the ${formatSize(context.fsPolicy.maxFileBytes)} limit`);
+  }
+  const buffer = fs.readFileSync(file);
+  if (isBinary(buffer)) {
+    throw new PathNotAllowed(`${displayPath(context.fsPolicy, file)} looks like a binary file`);
+  }
+  return buffer.toString("utf8");
+}
+
+const fsRead: ToolDefinition = {
+  name: "fs_read",
+  description: "Read a text file inside the allowed roots, with line numbers. Use start_line/end_line to read part of a large file.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description: "File path, relative to the first allowed root or absolute",
+      },
+      start_line: {
+        type: "integer",
+        minimum: 1,
+        description: "First line to return (1-based)",
+        default: 1,
+      },
+      end_line: {
+        type: "integer",
+        minimum: 1,
+        description: "Last line to return, inclusive (defaults to the end of the file)",
+      },
+    },
+    required: ["path"],
+  },
+  annotations: { readOnlyHint: true, openWorldHint: false },
+  handler: async (args, context) => {
+    try {
+      const file = resolveInRoots(context.fsPolicy, args.path);
+      const text = readTextFile(context, file);
+      const lines = text.split("\n");
+      if (lines[lines.length - 1] === "") {
+        lines.pop();
+      }
+
+      const start = args.start_line;
+      const end = Math.min(args.end_line ?? lines.length, lines.length);
+      const header = `${displayPath(context.fsPolicy, file)} (${formatSize(Buffer.byteLength(text))}, ${lines.length} lines)`;
+      if (start > lines.length) {
+        return textResult(`${header}\nstart_line ${start} is past the end of the file`);
+      }
+
+      const width = String(end).length;
+      let body = "";
+      let shownEnd = start - 1;
+      for (let number = start; number <= end; number++) {
+        const line = `${String(number).padStart(width)}\t${lines[number - 1]}\n`;
+        if (body.length + line.length > MAX_OUTPUT_CHARS) {
+          break;
+        }
+        body += line;
+        shownEnd = number;
+      }
+      const more = shownEnd < lines.length ? `\n[Showing lines ${start}-${shownEnd}; continue with start_line ${shownEnd + 1}]` : "";
+      return textResult(`${header}, lines ${start}-${shownEnd}:\n${body}${more}`);
+    } catch (error) {
+      return refusal(error);
+    }
+  },
+};
+
+const fsWrite: ToolDefinition = {
+  name: "fs_write",
+  description: "Write a text file inside the allowed roots, replacing it, appending to it, or only creating it if it doesn't exist. Parent directories are created as needed.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description: "File path, relative to the first allowed root or absolute",
+      },
+      content: {
+        type: "string",
+        description: "Text to write",
+      },
+      mode: {
+        type: "string",
+        enum: ["overwrite", "append", "create"],
+        description: "'overwrite' replaces the file, 'append' adds to the end, 'create' fails if the file exists",
+        default: "overwrite",
+      },
+    },
+    required: ["path", "content"],
+  },
+  // Not idempotent: appending twice adds the content twice
+  annotations: { destructiveHint: true, openWorldHint: false },
+  handler: async (args, context) => {
+    try {
+      assertWritable(context.fsPolicy);
+      const file = resolveInRoots(context.fsPolicy, args.path);
+      const shown = displayPath(context.fsPolicy, file);
+      const exists = fs.existsSync(file);
+      if (exists && args.mode === "create") {
+        return errorResult(`${shown} already exists (mode is 'create')`);
+      }
+      if (exists && !fs.statSync(file).isFile()) {
+        return errorResult(`${shown} is not a regular file`);
+      }
+
+      const previousSize = exists ? fs.statSync(file).size : 0;
+      const bytes = Buffer.byteLength(args.content);
+      const finalSize = args.mode === "append" ? previousSize + bytes : bytes;
+      if (finalSize > context.fsPolicy.maxFileBytes) {
+        return errorResult(`Refusing to write ${shown}: ${formatSize(finalSize)} is over the ${formatSize(context.fsPolicy.maxFileBytes)} limit`);
+      }
+
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      if (args.mode === "append") {
+        fs.appendFileSync(file, args.content);
+      } else {
+        fs.writeFileSync(file, args.content);
+      }
+      context.log(`📝 ${args.mode === "append" ? "Appended to" : "Wrote"} ${file} (${bytes} bytes)`);
+
+      const lines = args.content === "" ? 0 : args.content.replace(/\n$/, "").split("\n").length;
+      const action = args.mode === "append" ? "Appended" : exists ? "Overwrote" : "Created";
+      return textResult(`${action} ${shown}: wrote ${formatSize(bytes)} (${lines} lines); file is now ${formatSize(finalSize)}`);
+    } catch (error) {
+      return refusal(error);
+    }
+  },
+};
+
+const fsList: ToolDefinition = {
+  name: "fs_list",
+  description: "List a directory inside the allowed roots with file sizes, optionally recursing a few levels",
+  inputSchema: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description: "Directory path, relative to the first allowed root or absolute",
+        default: ".",
+      },
+      depth: {
+        type: "integer",
+        minimum: 1,
+        maximum: 10,
+        description: "How many levels to list (1 = only the directory itself)",
+        default: 1,
+      },
+      include_hidden: {
+        type: "boolean",
+        description: "Include dotfiles, .git and node_modules",
+        default: false,
+      },
+      max_entries: {
+        type: "integer",
+        minimum: 1,
+        maximum: 5000,
+        description: "Stop after this many entries",
+        default: 500,
+      },
+    },
+  },
+  annotations: { readOnlyHint: true, openWorldHint: false },
+  handler: async (args, context) => {
+    try {
+      const dir = resolveInRoots(context.fsPolicy, args.path);
+      if (!fs.statSync(dir).isDirectory()) {
+        return errorResult(`${displayPath(context.fsPolicy, dir)} is not a directory`);
+      }
+
+      const lines: string[] = [];
+      let truncated = false;
+      const walk = (current: string, level: number) => {
+        const entries = fs.readdirSync(current, { withFileTypes: true })
+          .filter((entry) => args.include_hidden || (!entry.name.startsWith(".") && !SKIPPED_DIRECTORIES.has(entry.name)))
+          .sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name));
+
+        for (const entry of entries) {
+          if (lines.length >= args.max_entries) {
+            truncated = true;
+            return;
+          }
+          const full = path.join(current, entry.name);
+          const indent = "  ".repeat(level);
+          if (entry.isDirectory()) {
+            lines.push(`${indent}${entry.name}/`);
+            if (level + 1 < args.depth) {
+              walk(full, level + 1);
+            }
+          } else if (entry.isSymbolicLink()) {
+            lines.push(`${indent}${entry.name} -> ${fs.readlinkSync(full)}`);
+          } else {
+            lines.push(`${indent}${entry.name}  ${formatSize(fs.statSync(full).size)}`);
+          }
+        }
+      };
+      walk(dir, 0);
+
+      const header = `${displayPath(context.fsPolicy, dir)}/ (${lines.length} entries${truncated ? `, stopped at max_entries ${args.max_entries}` : ""})`;
+      return textResult(`${header}\n${lines.join("\n") || "(empty)"}`);
+    } catch (error) {
+      return refusal(error);
+    }
+  },
+};
+
+// "*.ts" or "src/**/*.md" -> RegExp over paths relative to the search directory
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*\*\//g, "\u0000")
+    .replace(/\*\*/g, ".*")
+    .replace(/\*/g, "[^/]*")
+    .replace(/\?/g, "[^/]")
+    .replace(/\u0000/g, "(?:.*/)?");
+  // Patterns without a slash match the file name anywhere
+  return glob.includes("/") ? new RegExp(`^${pattern}$`) : new RegExp(`(^|/)${pattern}$`);
+}
+
+const fsSearch: ToolDefinition = {
+  name: "fs_search",
+  description: "Search text files inside the allowed roots for a regular expression and return matching lines as path:line: text",
+  inputSchema: {
+    type: "object",
+    properties: {
+      pattern: {
+        type: "string",
+        minLength: 1,
+        description: "JavaScript regular expression to search for",
+      },
+      path: {
+        type: "string",
+        description: "Directory or file to search, relative to the first allowed root or absolute",
+        default: ".",
+      },
+      glob: {
+        type: "string",
+        description: "Only search files matching this glob, e.g. *.ts or src/**/*.md",
+      },
+      case_sensitive: {
+        type: "boolean",
+        default: true,
+      },
+      max_results: {
+        type: "integer",
+        minimum: 1,
+        maximum: 2000,
+        description: "Stop after this many matching lines",
+        default: 200,
+      },
+    },
+    required: ["pattern"],
+  },
+  annotations: { readOnlyHint: true, openWorldHint: false },
+  handler: async (args, context) => {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(args.pattern, args.case_sensitive ? "" : "i");
+    } catch (error) {
+      return errorResult(error instanceof Error ? error.message : String(error));
+    }
+    const glob = args.glob ? globToRegExp(args.glob) : null;
+
+    try {
+      const start = resolveInRoots(context.fsPolicy, args.path);
+      const matches: string[] = [];
+      let filesSearched = 0;
+      let truncated = false;
+
+      const searchFile = (file: string) => {
+        if (glob && !glob.test(path.relative(start, file).split(path.sep).join("/"))) {
+          return;
+        }
+        if (fs.statSync(file).size > context.fsPolicy.maxFileBytes) {
+          return;
+        }
+        const buffer = fs.readFileSync(file);
+        if (isBinary(buffer)) {
+          return;
+        }
+        filesSearched++;
+        const lines = buffer.toString("utf8").split("\n");
+        for (let index = 0; index < lines.length; index++) {
+          if (regex.test(lines[index])) {
+            if (matches.length >= args.max_results) {
+              truncated = true;
+              return;
+            }
+            const line = lines[index].length > 300 ? `${lines[index].slice(0, 300)}…` : lines[index];
+            matches.push(`${displayPath(context.fsPolicy, file)}:${index + 1}: ${line}`);
+          }
+        }
+      };
+
+      const walk = (dir: string) => {
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+          if (truncated) {
+            return;
+          }
+          if (entry.name.startsWith(".") || SKIPPED_DIRECTORIES.has(entry.name)) {
+            continue;
+          }
+          const full = path.join(dir, entry.name);
+          if (entry.isDirectory()) {
+            walk(full);
+          } else if (entry.isFile()) {
+            searchFile(full);
+          }
+        }
+      };
+
+      if (fs.statSync(start).isDirectory()) {
+        walk(start);
+      } else {
+        searchFile(start);
+      }
+
+      if (matches.length === 0) {
+        return textResult(`No matches for /${args.pattern}/ in ${filesSearched} file(s) under ${displayPath(context.fsPolicy, start)}`);
+      }
+      const summary = `${matches.length} match(es) in ${filesSearched} file(s) searched${truncated ? `; stopped at max_results ${args.max_results}` : ""}`;
+      return textResult(`${summary}\n${matches.join("\n")}`);
+    } catch (error) {
+      return refusal(error);
+    }
+  },
+};
+
+const fsApplyPatch: ToolDefinition = {
+  name: "fs_apply_patch",
+  description: "Apply a unified diff (diff -u or git diff format) to files inside the allowed roots. Every hunk must apply or nothing is written. Supports creating and deleting files; several file patches for the same path apply in order.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      patch: {
+        type: "string",
+        minLength: 1,
+        description: "Unified diff; paths are relative to the first allowed root (a/ and b/ prefixes are stripped)",
+      },
+      dry_run: {
+        type: "boolean",
+        description: "Check that the patch applies without writing anything",
+        default: false,
+      },
+    },
+    required: ["patch"],
+  },
+  annotations: { destructiveHint: true, openWorldHint: false },
+  handler: async (args, context) => {
+    try {
+      assertWritable(context.fsPolicy);
+      const patches = parsePatch(args.patch);
+
+      // Work out every change before touching the disk. Later file patches
+      // for a path see the result of earlier ones, not what's on disk
+      const planned = new Map<string, string | null>();
+      const exists = (file: string) => planned.has(file) ? planned.get(file) !== null : fs.existsSync(file);
+      const read = (file: string) => planned.get(file) ?? readTextFile(context, file);
+      const changes = patches.map((patch) => {
+        const target = resolveInRoots(context.fsPolicy, (patch.newPath ?? patch.oldPath)!);
+        const shown = displayPath(context.fsPolicy, target);
+        const added = patch.hunks.reduce((sum, hunk) => sum + hunk.lines.filter((line) => line[0] === "+").length, 0);
+        const removed = patch.hunks.reduce((sum, hunk) => sum + hunk.lines.filter((line) => line[0] === "-").length, 0);
+
+        if (patch.oldPath === null) {
+          if (exists(target)) {
+            throw new PatchError(`${shown} already exists but the patch creates it`);
+          }
+          planned.set(target, applyHunks("", patch.hunks, shown));
+          return { shown, summary: `A ${shown} (+${added})` };
+        }
+
+        const source = resolveInRoots(context.fsPolicy, patch.oldPath);
+        if (!exists(source)) {
+          throw new PatchError(`${displayPath(context.fsPolicy, source)} does not exist`);
+        }
+        const content = applyHunks(read(source), patch.hunks, shown);
+        if (patch.newPath === null) {
+          if (content !== "") {
+            throw new PatchError(`${shown} would not be empty after removing the patch's lines, so it was not deleted`);
+          }
+          planned.set(target, null);
+          return { shown, summary: `D ${shown} (-${removed})` };
+        }
+        if (source !== target) {
+          planned.set(source, null);
+        }
+        planned.set(target, content);
+        const renamed = source !== target ? ` (renamed from ${displayPath(context.fsPolicy, source)})` : "";
+        return { shown, summary: `M ${shown}${renamed} (+${added} -${removed})` };
+      });
+
+      const files = [...new Set(changes.map((change) => change.shown))];
+      if (!args.dry_run) {
+        for (const [file, content] of planned) {
+          if (content === null) {
+            if (fs.existsSync(file)) {
+              fs.unlinkSync(file);
+            }
+            continue;
+          }
+          fs.mkdirSync(path.dirname(file), { recursive: true });
+          fs.writeFileSync(file, content);
+        }
+        context.log(`🩹 Applied patch to ${files.length} file(s): ${files.join(", ")}`);
+      }
+
+      const summary = changes.map((change) => change.summary).join("\n");
+      return textResult(`${args.dry_run ? "Patch applies cleanly (dry run, nothing written)" : "Patch applied"} to ${files.length} file(s):\n${summary}`);
+    } catch (error) {
+      return refusal(error);
+    }
+  },
+};
+
+const fsTools: ToolDefinition[] = [
+  fsRead,
+  fsWrite,
+  fsList,
+  fsSearch,
+  fsApplyPatch,
+];
+
+export { fsTools };
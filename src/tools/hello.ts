@@ -0,0 +1,22 @@
+import { ToolDefinition, textResult } from "./registry";
+
+const sayHello: ToolDefinition = {
+  name: "say_hello",
+  description: "Says hello to a person",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        description: "The name of the person to greet",
+      },
+    },
+    required: ["name"],
+  },
+  annotations: { readOnlyHint: true, openWorldHint: false },
+  handler: async (args) => {
+    return textResult(`Hello, ${args.name}! This is a greeting from the MCP server.`);
+  },
+};
+
+export { sayHello };
@@ -0,0 +1,33 @@
+import { ToolDefinition } from "./registry";
+import { sayHello } from "./hello";
+import { getTime } from "./time";
+import { executeBash } from "./bash";
+import { jobTools } from "./jobs";
+import { fsTools } from "./fs";
+import { browserTools } from "./browser";
+import { tabTools } from "./tabs";
+import { pageTools } from "./page";
+import { webSearch } from "./search";
+import { linkupSearch } from "./linkup";
+import { fetchUrl, postUrl } from "./fetch";
+import { summaryTools } from "./summarize";
+
+// Tools that ship with the server, in the order they are advertised
+const builtinTools: ToolDefinition[] = [
+  sayHello,
+  getTime,
+  executeBash,
+  ...jobTools,
+  ...fsTools,
+  ...browserTools,
+  ...pageTools,
+  ...tabTools,
+  webSearch,
+  linkupSearch,
+  fetchUrl,
+  postUrl,
+  ...summaryTools,
+];
+
+export { builtinTools };
+export { ToolRegistry, ToolDefinition, ToolContext, ToolSetup, textResult, structuredResult, errorResult } from "./registry";
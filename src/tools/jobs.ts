@@ -0,0 +1,166 @@
+import { ToolDefinition, textResult, errorResult } from "./registry";
+import { JobInfo } from "../jobs";
+import { PolicyViolation } from "../sandbox";
+import { confirmCommand } from "./bash";
+
+const DEFAULT_READ_BYTES = 16000;
+
+function describeJob(job: JobInfo): string {
+  const status = job.status === "running"
+    ? `running (pid ${job.pid})`
+    : `${job.status}${job.exitCode !== null ? `, exit code ${job.exitCode}` : ""}${job.signal ? `, signal ${job.signal}` : ""}`;
+  return `${job.id}: ${status}\nCommand: ${job.command}\nStarted: ${job.startedAt}${job.endedAt ? `\nEnded: ${job.endedAt}` : ""}\nOutput length: ${job.outputLength}`;
+}
+
+const jobIdSchema = {
+  type: "string",
+  description: "Job ID returned by job_start, e.g. job-1",
+};
+
+const jobStart: ToolDefinition = {
+  name: "job_start",
+  description: "Start a long-running bash command (test suite, dev server, log tail) in the background and return its job ID. Subject to the same policy as execute_bash, except the timeout.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      command: {
+        type: "string",
+        description: "The bash command to run in the background",
+      },
+      cwd: {
+        type: "string",
+        description: "Directory to run in, relative to the server's working directory",
+      },
+    },
+    required: ["command"],
+  },
+  annotations: { destructiveHint: true, openWorldHint: true },
+  handler: async (args, context) => {
+    try {
+      const refusal = await confirmCommand(args.command, context);
+      if (refusal) {
+        return errorResult(`Command not run: ${refusal}\nCommand: ${args.command}`);
+      }
+      const job = context.jobs.start(args.command, context.bashPolicy, args.cwd);
+      context.log(`🧵 Started ${job.id}: ${job.command}`);
+      return textResult(`Started ${job.id} (pid ${job.pid})\nCommand: ${job.command}\nUse job_output with job_id "${job.id}" to read its output.`);
+    } catch (error) {
+      if (error instanceof PolicyViolation) {
+        return errorResult(`Command blocked by policy: ${error.message}\nCommand: ${args.command}`);
+      }
+      throw error;
+    }
+  },
+};
+
+const jobStatus: ToolDefinition = {
+  name: "job_status",
+  description: "Report whether a background job is running or has exited, with its exit code",
+  inputSchema: {
+    type: "object",
+    properties: {
+      job_id: jobIdSchema,
+    },
+    required: ["job_id"],
+  },
+  annotations: { readOnlyHint: true, openWorldHint: false },
+  handler: async (args, context) => {
+    return textResult(describeJob(context.jobs.get(args.job_id)));
+  },
+};
+
+const jobOutput: ToolDefinition = {
+  name: "job_output",
+  description: "Read a background job's combined stdout/stderr starting at an offset. Pass the returned next_offset on the following call to read incrementally.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      job_id: jobIdSchema,
+      offset: {
+        type: "integer",
+        minimum: 0,
+        description: "Offset to read from (0 for the beginning, or next_offset from the previous read)",
+        default: 0,
+      },
+      max_bytes: {
+        type: "integer",
+        minimum: 1,
+        maximum: 100000,
+        description: "Maximum amount of output to return",
+        default: DEFAULT_READ_BYTES,
+      },
+    },
+    required: ["job_id"],
+  },
+  annotations: { readOnlyHint: true, openWorldHint: false },
+  handler: async (args, context) => {
+    const job = context.jobs.get(args.job_id);
+    const slice = context.jobs.readOutput(args.job_id, args.offset, args.max_bytes);
+    const notes = [
+      `${job.id} is ${job.status}${job.exitCode !== null ? ` (exit code ${job.exitCode})` : ""}`,
+      `next_offset: ${slice.nextOffset}`,
+    ];
+    if (slice.dropped > 0) {
+      notes.push(`${slice.dropped} bytes before offset ${args.offset + slice.dropped} were dropped from the buffer`);
+    }
+    if (slice.nextOffset < job.outputLength) {
+      notes.push(`${job.outputLength - slice.nextOffset} more bytes available`);
+    }
+    return textResult(`${notes.join("\n")}\n--- output ---\n${slice.data}`);
+  },
+};
+
+const jobKill: ToolDefinition = {
+  name: "job_kill",
+  description: "Stop a background job and its child processes",
+  inputSchema: {
+    type: "object",
+    properties: {
+      job_id: jobIdSchema,
+      signal: {
+        type: "string",
+        enum: ["SIGTERM", "SIGINT", "SIGKILL"],
+        description: "Signal to send",
+        default: "SIGTERM",
+      },
+    },
+    required: ["job_id"],
+  },
+  annotations: { destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  handler: async (args, context) => {
+    const before = context.jobs.get(args.job_id);
+    if (before.status !== "running") {
+      return textResult(`${before.id} is not running (${before.status})`);
+    }
+    const job = context.jobs.kill(args.job_id, args.signal);
+    context.log(`🧵 Killed ${job.id} with ${args.signal}`);
+    return textResult(`Sent ${args.signal} to ${job.id}`);
+  },
+};
+
+const jobList: ToolDefinition = {
+  name: "job_list",
+  description: "List background jobs and their status",
+  inputSchema: {
+    type: "object",
+    properties: {},
+  },
+  annotations: { readOnlyHint: true, openWorldHint: false },
+  handler: async (args, context) => {
+    const jobs = context.jobs.list();
+    if (jobs.length === 0) {
+      return textResult("No background jobs");
+    }
+    return textResult(jobs.map(describeJob).join("\n\n"));
+  },
+};
+
+const jobTools: ToolDefinition[] = [
+  jobStart,
+  jobStatus,
+  jobOutput,
+  jobKill,
+  jobList,
+];
+
+export { jobTools };
@@ -0,0 +1,163 @@
+import { ToolDefinition, ToolContext, structuredResult, errorResult } from "./registry";
+import { abortable } from "./abortable";
+import { getLinkupClient } from "../search";
+
+interface LinkupResult {
+  type: "text" | "image";
+  name: string;
+  url: string;
+  // Page excerpt; absent for images
+  content?: string;
+}
+
+interface LinkupSearchOutput {
+  query: string;
+  outputType: "searchResults" | "sourcedAnswer";
+  // Only for sourcedAnswer
+  answer?: string;
+  // Search hits, or the sources the answer is based on
+  results: LinkupResult[];
+}
+
+// Both Linkup output types flattened into one shape
+function toOutput(query: string, outputType: LinkupSearchOutput["outputType"], response: any): LinkupSearchOutput {
+  if (outputType === "sourcedAnswer") {
+    return {
+      query,
+      outputType,
+      answer: response.answer ?? "",
+      results: (response.sources ?? []).map((source: any) => ({
+        type: "text",
+        name: source.name ?? "",
+        url: source.url ?? "",
+        content: source.snippet ?? "",
+      })),
+    };
+  }
+  return {
+    query,
+    outputType,
+    results: (response.results ?? []).map((result: any) => ({
+      type: result.type === "image" ? "image" : "text",
+      name: result.name ?? "",
+      url: result.url ?? "",
+      ...(result.content !== undefined ? { content: result.content } : {}),
+    })),
+  };
+}
+
+// depth "ask" lets the user pick, since a deep search costs ten times as much.
+// Clients that can't ask get a standard search; null means the user declined.
+async function chooseDepth(query: string, context: ToolContext): Promise<"standard" | "deep" | null> {
+  if (!context.elicit) {
+    return "standard";
+  }
+  const result = await context.elicit({
+    message: `How thorough should the search for "${query}" be?`,
+    requestedSchema: {
+      type: "object",
+      properties: {
+        depth: {
+          type: "string",
+          title: "Search depth",
+          enum: ["standard", "deep"],
+          enumNames: ["Standard: faster, 1 credit", "Deep: comprehensive, 10 credits"],
+          default: "standard",
+        },
+      },
+      required: ["depth"],
+    },
+  });
+  return result.action === "accept" ? (result.content?.depth === "deep" ? "deep" : "standard") : null;
+}
+
+const linkupSearch: ToolDefinition = {
+  name: "linkup_search",
+  description: "Search the web using Linkup for factual and up-to-date information",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "The search query - be specific for best results",
+      },
+      depth: {
+        type: "string",
+        enum: ["standard", "deep", "ask"],
+        description: "Search depth: 'standard' (faster, 1 credit), 'deep' (comprehensive, 10 credits) or 'ask' to let the user choose",
+        default: "standard"
+      },
+      outputType: {
+        type: "string",
+        enum: ["searchResults", "sourcedAnswer"],
+        description: "Output format: 'searchResults' for raw results or 'sourcedAnswer' for processed answer",
+        default: "searchResults"
+      },
+      includeImages: {
+        type: "boolean",
+        description: "Whether to include images in results",
+        default: false
+      }
+    },
+    required: ["query"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      query: { type: "string" },
+      outputType: { type: "string", enum: ["searchResults", "sourcedAnswer"] },
+      answer: { type: "string", description: "The sourced answer (sourcedAnswer only)" },
+      results: {
+        type: "array",
+        description: "Search results, or the answer's sources",
+        items: {
+          type: "object",
+          properties: {
+            type: { type: "string", enum: ["text", "image"] },
+            name: { type: "string" },
+            url: { type: "string" },
+            content: { type: "string" },
+          },
+          required: ["type", "name", "url"],
+        },
+      },
+    },
+    required: ["query", "outputType", "results"],
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  unavailableReason: (setup) => setup.credentials.linkupApiKey ? null : "no Linkup API key (LINKUP_API_KEY) is configured",
+  handler: async (args, context) => {
+
+    const searchQuery = args.query as string;
+    try {
+      const depth = args.depth === "ask" ? await chooseDepth(searchQuery, context) : args.depth as "standard" | "deep";
+      if (!depth) {
+        return errorResult(`The user didn't choose a search depth, so "${searchQuery}" wasn't searched`);
+      }
+      const searchParams = {
+        query: searchQuery,
+        depth,
+        outputType: args.outputType as "searchResults" | "sourcedAnswer",
+        includeImages: args.includeImages as boolean,
+      };
+
+      context.log("🔍 Linkup search params:", searchParams);
+      await context.reportProgress(`Running ${searchParams.depth} search for "${searchQuery}"`);
+      // The Linkup SDK can't abort a request, so a cancelled search just stops waiting for it
+      const response = await abortable(getLinkupClient(context.credentials.linkupApiKey!).search(searchParams), context.signal);
+
+      let resultText = "";
+      if (searchParams.outputType === "sourcedAnswer") {
+        resultText = `Linkup Search Results for: "${searchQuery}"\n\nAnswer: ${JSON.stringify(response, null, 2)}`;
+      } else {
+        resultText = `Linkup Search Results for: "${searchQuery}"\n\nResults: ${JSON.stringify(response, null, 2)}`;
+      }
+
+      return structuredResult(resultText, toOutput(searchQuery, searchParams.outputType, response));
+    } catch (error) {
+      return errorResult(`Error performing Linkup search: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+};
+
+export { linkupSearch, LinkupSearchOutput, LinkupResult };
@@ -0,0 +1,566 @@
+import { ToolDefinition, ToolSetup, textResult, errorResult } from "./registry";
+import { abortable } from "./abortable";
+import { SECRET_KEY } from "../audit";
+
+// Element references handed out by browser_snapshot and browser_extract_links
+// are stored on the elements themselves, so a ref keeps pointing at the same
+// node for as long as it stays in the DOM.
+const REF_ATTRIBUTE = "data-mcp-ref";
+const DEFAULT_SNAPSHOT_LENGTH = 20000;
+
+// unavailableReason of every browser_* tool
+const needsBrowser = (setup: ToolSetup) => setup.browser.unavailableReason();
+
+interface Target {
+  selector: string;
+  // How to refer to the element in messages
+  label: string;
+}
+
+const refSchema = {
+  type: "string",
+  pattern: "^e\\d+$",
+  description: "Element reference from browser_snapshot, e.g. e12 (use instead of selector)",
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Turn a tool's selector/ref arguments into a selector. Refs must exist right
+// now; a stale ref means the page changed since the snapshot.
+async function resolveTarget(page: any, args: { selector?: string; ref?: string }): Promise<Target> {
+  if (args.ref) {
+    const selector = `[${REF_ATTRIBUTE}="${args.ref}"]`;
+    if (!(await page.$(selector))) {
+      throw new Error(`Unknown element ref ${args.ref}; the page may have changed, take a new browser_snapshot`);
+    }
+    return { selector, label: `ref ${args.ref}` };
+  }
+  if (args.selector) {
+    return { selector: args.selector, label: args.selector };
+  }
+  throw new Error("Either selector or ref is required");
+}
+
+// Password inputs and fields named like one. Judged from the element itself,
+// since a ref or a selector like #pw says nothing about what it points at.
+async function isSecretField(page: any, selector: string): Promise<boolean> {
+  return page.locator(selector).first().evaluate((node: Element, secretName: string) => {
+    const pattern = new RegExp(secretName, "i");
+    return (node instanceof HTMLInputElement && node.type === "password")
+      || /password/i.test(node.getAttribute("autocomplete") || "")
+      || ["name", "id", "aria-label", "placeholder"].some((attribute) => pattern.test(node.getAttribute(attribute) || ""));
+  }, SECRET_KEY.source).catch(() => false);
+}
+
+// Walks the DOM inside the page and returns an indented outline of roles,
+// accessible names and state, tagging interactive elements with refs.
+function outlinePage({ rootSelector, interactiveOnly, refAttribute }: { rootSelector?: string; interactiveOnly: boolean; refAttribute: string }): string {
+  const state = window as any;
+  state.__mcpNextRef = state.__mcpNextRef || 1;
+
+  const interactiveRoles = new Set([
+    "link", "button", "textbox", "searchbox", "checkbox", "radio", "combobox", "listbox",
+    "option", "slider", "spinbutton", "switch", "tab", "menuitem", "menuitemcheckbox", "menuitemradio",
+  ]);
+  const landmarkRoles = new Set(["heading", "img", "navigation", "main", "banner", "contentinfo", "form", "dialog", "list", "listitem", "table", "row", "cell", "region", "complementary", "article"]);
+  const nameFromContent = new Set(["link", "button", "heading", "option", "tab", "menuitem", "menuitemcheckbox", "menuitemradio", "switch", "generic"]);
+  const skipTags = new Set(["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE", "HEAD", "META", "LINK"]);
+
+  const implicitRole = (element: Element): string | null => {
+    const tag = element.tagName.toLowerCase();
+    const type = (element.getAttribute("type") || "text").toLowerCase();
+    switch (tag) {
+      case "a": return element.hasAttribute("href") ? "link" : null;
+      case "button": case "summary": return "button";
+      case "select": return (element as HTMLSelectElement).multiple ? "listbox" : "combobox";
+      case "option": return "option";
+      case "textarea": return "textbox";
+      case "input":
+        if (type === "hidden") return null;
+        if (["button", "submit", "reset", "image"].includes(type)) return "button";
+        if (type === "checkbox" || type === "radio") return type;
+        if (type === "range") return "slider";
+        if (type === "number") return "spinbutton";
+        if (type === "search") return "searchbox";
+        return "textbox";
+      case "h1": case "h2": case "h3": case "h4": case "h5": case "h6": return "heading";
+      case "img": return "img";
+      case "nav": return "navigation";
+      case "main": return "main";
+      case "header": return "banner";
+      case "footer": return "contentinfo";
+      case "form": return "form";
+      case "dialog": return "dialog";
+      case "ul": case "ol": return "list";
+      case "li": return "listitem";
+      case "table": return "table";
+      case "tr": return "row";
+      case "td": case "th": return "cell";
+      case "aside": return "complementary";
+      case "article": return "article";
+      case "section": return element.hasAttribute("aria-label") ? "region" : null;
+      default: return null;
+    }
+  };
+
+  const isHidden = (element: Element): boolean => {
+    if (element.getAttribute("aria-hidden") === "true" || (element as HTMLElement).hidden) return true;
+    const style = getComputedStyle(element);
+    return style.display === "none" || style.visibility === "hidden";
+  };
+
+  const clean = (text: string | null | undefined, max = 80): string => {
+    const collapsed = (text || "").replace(/\s+/g, " ").trim();
+    return collapsed.length > max ? `${collapsed.slice(0, max - 1)}…` : collapsed;
+  };
+
+  const accessibleName = (element: Element, role: string): string => {
+    const labelledBy = element.getAttribute("aria-labelledby");
+    if (labelledBy) {
+      const text = labelledBy.split(/\s+/).map((id) => document.getElementById(id)?.textContent || "").join(" ");
+      if (clean(text)) return clean(text);
+    }
+    const direct = element.getAttribute("aria-label") || element.getAttribute("alt");
+    if (direct) return clean(direct);
+    const id = element.getAttribute("id");
+    if (id && /^(INPUT|TEXTAREA|SELECT)$/.test(element.tagName)) {
+      const label = document.querySelector(`label[for="${CSS.escape(id)}"]`);
+      if (label) return clean(label.textContent);
+    }
+    const wrappingLabel = element.closest("label");
+    if (wrappingLabel && wrappingLabel !== element) return clean(wrappingLabel.textContent);
+    if (element instanceof HTMLInputElement && ["button", "submit", "reset"].includes(element.type)) {
+      return clean(element.value || element.type);
+    }
+    const placeholder = element.getAttribute("placeholder") || element.getAttribute("title");
+    if (placeholder) return clean(placeholder);
+    // Containers are named by their children, which are listed anyway
+    if (!nameFromContent.has(role)) {
+      return "";
+    }
+    return clean((element as HTMLElement).innerText ?? element.textContent);
+  };
+
+  // Passwords and card details the user typed stay out of the outline
+  const isSecret = (element: HTMLInputElement | HTMLTextAreaElement): boolean => {
+    const autocomplete = (element.getAttribute("autocomplete") || "").toLowerCase();
+    return (element instanceof HTMLInputElement && element.type === "password") ||
+      /password$/.test(autocomplete) || /(^|\s)cc-/.test(autocomplete);
+  };
+
+  const describeState = (element: Element): string => {
+    const parts: string[] = [];
+    if (element instanceof HTMLInputElement && (element.type === "checkbox" || element.type === "radio")) {
+      parts.push(element.checked ? "checked" : "unchecked");
+    } else if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+      if (element.value) parts.push(isSecret(element) ? "value=(hidden)" : `value="${clean(element.value, 60)}"`);
+    } else if (element instanceof HTMLSelectElement) {
+      const selected = Array.from(element.selectedOptions).map((option) => clean(option.textContent, 40));
+      if (selected.length > 0) parts.push(`selected="${selected.join(", ")}"`);
+    }
+    if (/^H[1-6]$/.test(element.tagName)) parts.push(`level=${element.tagName[1]}`);
+    if ((element as any).disabled) parts.push("disabled");
+    if (element.getAttribute("aria-expanded")) parts.push(`expanded=${element.getAttribute("aria-expanded")}`);
+    if (element instanceof HTMLAnchorElement && element.href) parts.push(`url=${element.href}`);
+    return parts.map((part) => ` [${part}]`).join("");
+  };
+
+  const refFor = (element: Element): string => {
+    let ref = element.getAttribute(refAttribute);
+    if (!ref) {
+      ref = `e${state.__mcpNextRef++}`;
+      element.setAttribute(refAttribute, ref);
+    }
+    return ref;
+  };
+
+  const lines: string[] = [];
+  // Inside a link, button or heading the text is already the element's name,
+  // so only nested interactive elements are listed
+  const walk = (element: Element, depth: number, insideNamed: boolean) => {
+    if (skipTags.has(element.tagName) || isHidden(element)) return;
+
+    const role = element.getAttribute("role") || implicitRole(element);
+    const focusable = (element as HTMLElement).isContentEditable ||
+      element.hasAttribute("onclick") ||
+      (element.hasAttribute("tabindex") && element.getAttribute("tabindex") !== "-1");
+    const interactive = (role !== null && interactiveRoles.has(role)) || focusable;
+    const shown = interactive || (!interactiveOnly && !insideNamed && role !== null && landmarkRoles.has(role));
+
+    let childDepth = depth;
+    let childInsideNamed = insideNamed;
+    if (shown) {
+      const name = accessibleName(element, role || "generic");
+      const ref = interactive ? ` [ref=${refFor(element)}]` : "";
+      lines.push(`${"  ".repeat(depth)}- ${role || "generic"}${name ? ` "${name.replace(/"/g, "'")}"` : ""}${describeState(element)}${ref}`);
+      childDepth = depth + 1;
+      childInsideNamed = insideNamed || interactive || role === "heading";
+    }
+
+    // Options are summarized by the select's state and chosen with browser_fill_form
+    if (element.tagName === "SELECT") return;
+
+    for (const node of Array.from(element.childNodes)) {
+      if (node.nodeType === Node.TEXT_NODE) {
+        const text = clean(node.textContent, 200);
+        if (text && !interactiveOnly && !childInsideNamed) {
+          lines.push(`${"  ".repeat(childDepth)}- text: ${text}`);
+        }
+      } else if (node.nodeType === Node.ELEMENT_NODE) {
+        walk(node as Element, childDepth, childInsideNamed);
+      }
+    }
+    // Open shadow roots are part of what the user sees
+    if (element.shadowRoot) {
+      for (const child of Array.from(element.shadowRoot.children)) {
+        walk(child, childDepth, childInsideNamed);
+      }
+    }
+  };
+
+  const root = rootSelector ? document.querySelector(rootSelector) : document.body;
+  if (!root) {
+    throw new Error(`No element matches ${rootSelector}`);
+  }
+  walk(root, 0, false);
+  return lines.join("\n");
+}
+
+const browserSnapshot: ToolDefinition = {
+  name: "browser_snapshot",
+  description: "Get a compact outline of the active page (roles, names, form state) in which interactive elements carry refs like [ref=e12]. Pass a ref to browser_click, browser_type, browser_get_text or browser_fill_form instead of guessing a CSS selector.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      selector: {
+        type: "string",
+        description: "CSS selector of the part of the page to outline (defaults to the whole body)",
+      },
+      interactive_only: {
+        type: "boolean",
+        description: "Only list interactive elements (links, buttons, inputs) and skip text",
+        default: false,
+      },
+      max_length: {
+        type: "integer",
+        minimum: 1000,
+        maximum: 200000,
+        description: "Truncate the outline to this many characters",
+        default: DEFAULT_SNAPSHOT_LENGTH,
+      },
+    },
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    try {
+      const page = await context.getPage();
+      let outline: string = await page.evaluate(outlinePage, {
+        rootSelector: args.selector,
+        interactiveOnly: args.interactive_only,
+        refAttribute: REF_ATTRIBUTE,
+      });
+      if (outline.length > args.max_length) {
+        outline = `${outline.slice(0, args.max_length)}\n[... truncated; pass selector to outline part of the page ...]`;
+      }
+      return textResult(`Page: ${await page.title()} (${page.url()})\n${outline || "(no visible content)"}`);
+    } catch (error) {
+      return errorResult(`Error taking snapshot: ${errorMessage(error)}`);
+    }
+  },
+};
+
+const browserExtractLinks: ToolDefinition = {
+  name: "browser_extract_links",
+  description: "List the links on the active page with their text, absolute URL and a ref usable with browser_click",
+  inputSchema: {
+    type: "object",
+    properties: {
+      filter: {
+        type: "string",
+        description: "Only include links whose text or URL contains this (case-insensitive)",
+      },
+      same_origin: {
+        type: "boolean",
+        description: "Only include links to the page's own origin",
+        default: false,
+      },
+      limit: {
+        type: "integer",
+        minimum: 1,
+        maximum: 1000,
+        description: "Maximum number of links to return",
+        default: 100,
+      },
+    },
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    try {
+      const page = await context.getPage();
+      const links: { ref: string; text: string; href: string }[] = await page.evaluate(
+        ({ refAttribute }: { refAttribute: string }) => {
+          const state = window as any;
+          state.__mcpNextRef = state.__mcpNextRef || 1;
+          return Array.from(document.querySelectorAll("a[href]")).map((anchor) => {
+            let ref = anchor.getAttribute(refAttribute);
+            if (!ref) {
+              ref = `e${state.__mcpNextRef++}`;
+              anchor.setAttribute(refAttribute, ref);
+            }
+            const text = (anchor.getAttribute("aria-label") || (anchor as HTMLElement).innerText || anchor.getAttribute("title") || "")
+              .replace(/\s+/g, " ")
+              .trim();
+            return { ref, text, href: (anchor as HTMLAnchorElement).href };
+          });
+        },
+        { refAttribute: REF_ATTRIBUTE }
+      );
+
+      const origin = new URL(page.url()).origin;
+      const filter = (args.filter || "").toLowerCase();
+      const matching = links.filter((link) =>
+        (!filter || link.text.toLowerCase().includes(filter) || link.href.toLowerCase().includes(filter)) &&
+        (!args.same_origin || safeOrigin(link.href) === origin)
+      );
+      if (matching.length === 0) {
+        return textResult(`No links found on ${page.url()}${filter ? ` matching "${args.filter}"` : ""}`);
+      }
+
+      const shown = matching.slice(0, args.limit);
+      const lines = shown.map((link) => `[${link.ref}] ${link.text || "(no text)"} — ${link.href}`);
+      const more = matching.length > shown.length ? `\n... ${matching.length - shown.length} more (raise limit or use filter)` : "";
+      return textResult(`${matching.length} link(s) on ${page.url()}:\n${lines.join("\n")}${more}`);
+    } catch (error) {
+      return errorResult(`Error extracting links: ${errorMessage(error)}`);
+    }
+  },
+};
+
+function safeOrigin(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch (error) {
+    return null;
+  }
+}
+
+const browserFillForm: ToolDefinition = {
+  name: "browser_fill_form",
+  description: "Fill several form fields in one call: text inputs and textareas get text, selects get an option value or label, checkboxes and radios get true/false. Optionally clicks a submit element afterwards.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      fields: {
+        type: "array",
+        minItems: 1,
+        description: "Fields to fill, in order",
+        items: {
+          type: "object",
+          properties: {
+            selector: {
+              type: "string",
+              description: "CSS selector of the field",
+            },
+            ref: refSchema,
+            value: {
+              type: ["string", "number", "boolean"],
+              description: "Text to enter, option to select, or checked state",
+            },
+          },
+          required: ["value"],
+        },
+      },
+      submit: {
+        type: "object",
+        description: "Element to click once every field is filled",
+        properties: {
+          selector: { type: "string" },
+          ref: refSchema,
+        },
+      },
+    },
+    required: ["fields"],
+  },
+  annotations: { destructiveHint: true, openWorldHint: true },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    let page: any;
+    try {
+      page = await context.getPage();
+    } catch (error) {
+      return errorResult(`Error filling form: ${errorMessage(error)}`);
+    }
+
+    const results: string[] = [];
+    let failed = false;
+    for (const field of args.fields) {
+      let secret = false;
+      try {
+        const target = await resolveTarget(page, field);
+        const element = page.locator(target.selector).first();
+        const kind: string = await element.evaluate((node: Element) =>
+          node instanceof HTMLInputElement ? node.type : node.tagName.toLowerCase()
+        );
+
+        if (kind === "checkbox" || kind === "radio") {
+          await element.setChecked(field.value === true || field.value === "true", { timeout: 10000 });
+        } else if (kind === "select") {
+          const value = String(field.value);
+          // Try the option value first, then its visible label
+          await element.selectOption(value, { timeout: 10000 }).catch(() => element.selectOption({ label: value }, { timeout: 10000 }));
+        } else {
+          secret = await isSecretField(page, target.selector);
+          if (secret) {
+            context.markSecretTarget(field.ref ?? field.selector);
+          }
+          await element.fill(String(field.value), { timeout: 10000 });
+        }
+        results.push(`✓ ${target.label} = ${secret ? "(hidden)" : JSON.stringify(field.value)}`);
+      } catch (error) {
+        failed = true;
+        results.push(`✗ ${field.ref ? `ref ${field.ref}` : field.selector || "(no selector or ref)"}: ${errorMessage(error)}`);
+      }
+    }
+
+    if (args.submit && !failed) {
+      try {
+        const target = await resolveTarget(page, args.submit);
+        await page.click(target.selector, { timeout: 10000 });
+        results.push(`Submitted via ${target.label}`);
+      } catch (error) {
+        failed = true;
+        results.push(`✗ submit: ${errorMessage(error)}`);
+      }
+    } else if (args.submit) {
+      results.push("Not submitted because some fields failed");
+    }
+
+    const text = `Filled ${args.fields.length} field(s) on ${page.url()}:\n${results.join("\n")}`;
+    return failed ? errorResult(text) : textResult(text);
+  },
+};
+
+const browserScroll: ToolDefinition = {
+  name: "browser_scroll",
+  description: "Scroll the active page by a direction and amount, to the top or bottom, or until an element is in view",
+  inputSchema: {
+    type: "object",
+    properties: {
+      direction: {
+        type: "string",
+        enum: ["down", "up", "left", "right", "top", "bottom"],
+        description: "Where to scroll (ignored when selector or ref is given)",
+        default: "down",
+      },
+      amount: {
+        type: "integer",
+        minimum: 1,
+        description: "Pixels to scroll (defaults to one viewport)",
+      },
+      selector: {
+        type: "string",
+        description: "CSS selector of an element to scroll into view",
+      },
+      ref: refSchema,
+    },
+  },
+  annotations: { destructiveHint: false, openWorldHint: true },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    try {
+      const page = await context.getPage();
+      if (args.selector || args.ref) {
+        const target = await resolveTarget(page, args);
+        await page.locator(target.selector).first().scrollIntoViewIfNeeded({ timeout: 10000 });
+      } else {
+        await page.evaluate(({ direction, amount }: { direction: string; amount?: number }) => {
+          const vertical = amount ?? window.innerHeight * 0.9;
+          const horizontal = amount ?? window.innerWidth * 0.9;
+          switch (direction) {
+            case "up": window.scrollBy(0, -vertical); break;
+            case "down": window.scrollBy(0, vertical); break;
+            case "left": window.scrollBy(-horizontal, 0); break;
+            case "right": window.scrollBy(horizontal, 0); break;
+            case "top": window.scrollTo(0, 0); break;
+            case "bottom": window.scrollTo(0, document.documentElement.scrollHeight); break;
+          }
+        }, { direction: args.direction, amount: args.amount });
+      }
+
+      const position = await page.evaluate(() => ({
+        x: Math.round(window.scrollX),
+        y: Math.round(window.scrollY),
+        viewportHeight: window.innerHeight,
+        pageHeight: document.documentElement.scrollHeight,
+      }));
+      const atBottom = position.y + position.viewportHeight >= position.pageHeight - 1;
+      return textResult(`Scroll position: x=${position.x}, y=${position.y} of page height ${position.pageHeight}${atBottom ? " (at bottom)" : ""}`);
+    } catch (error) {
+      return errorResult(`Error scrolling: ${errorMessage(error)}`);
+    }
+  },
+};
+
+const browserWaitFor: ToolDefinition = {
+  name: "browser_wait_for",
+  description: "Wait until text or an element appears on the active page (or disappears, with state hidden)",
+  inputSchema: {
+    type: "object",
+    properties: {
+      text: {
+        type: "string",
+        description: "Text to wait for (substring match)",
+      },
+      selector: {
+        type: "string",
+        description: "CSS selector to wait for",
+      },
+      state: {
+        type: "string",
+        enum: ["visible", "hidden", "attached", "detached"],
+        description: "What to wait for: the target becoming visible, hidden, present in the DOM or removed",
+        default: "visible",
+      },
+      timeout_ms: {
+        type: "integer",
+        minimum: 1,
+        maximum: 120000,
+        description: "How long to wait before giving up",
+        default: 10000,
+      },
+    },
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    if (!args.text && !args.selector) {
+      return errorResult("Either text or selector is required");
+    }
+    const label = args.text ? `text "${args.text}"` : args.selector;
+
+    try {
+      const page = await context.getPage();
+      const locator = args.text ? page.getByText(args.text).first() : page.locator(args.selector).first();
+      const started = Date.now();
+      await context.reportProgress(`Waiting for ${label} to be ${args.state}`);
+      await abortable(locator.waitFor({ state: args.state, timeout: args.timeout_ms }), context.signal);
+      return textResult(`${label} is ${args.state} after ${Date.now() - started}ms`);
+    } catch (error) {
+      return errorResult(`Error waiting for ${label}: ${errorMessage(error)}`);
+    }
+  },
+};
+
+const pageTools: ToolDefinition[] = [
+  browserSnapshot,
+  browserExtractLinks,
+  browserFillForm,
+  browserScroll,
+  browserWaitFor,
+];
+
+export { pageTools, resolveTarget, isSecretField, refSchema, needsBrowser };
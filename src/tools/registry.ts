@@ -0,0 +1,265 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Tool, ToolAnnotations, CallToolResult, LoggingLevel, CreateMessageRequest, CreateMessageResult, ElicitRequest, ElicitResult } from "@modelcontextprotocol/sdk/types.js";
+import { validateSchema, formatErrors } from "../schema";
+import { ResourceStore } from "../resources";
+import { BashPolicy } from "../sandbox";
+import { JobManager } from "../jobs";
+import { FsPolicy } from "../workspace";
+import { BrowserSession } from "../browser";
+import { SearchProvider } from "../search";
+import { UrlFetcher } from "../fetcher";
+import { Credentials, ToolsConfig, limitsFor, toolEnabled } from "../config";
+
+// Services the server hands to every tool handler
+interface ToolContext {
+  // Server log at info level, or at a chosen level; both reach clients as
+  // notifications/message and the log://server resource
+  log: (...args: any[]) => void;
+  logAt: (level: LoggingLevel, ...args: any[]) => void;
+  resources: ResourceStore;
+  bashPolicy: BashPolicy;
+  jobs: JobManager;
+  fsPolicy: FsPolicy;
+  // Aborted when the client cancels the call
+  signal: AbortSignal;
+  // Sends a progress notification if the caller asked for them; progress
+  // defaults to a counter that increases with every call
+  reportProgress: (message: string, progress?: number, total?: number) => Promise<void>;
+  browser: BrowserSession;
+  search: SearchProvider;
+  fetcher: UrlFetcher;
+  credentials: Credentials;
+  // The active browser tab, starting the browser if needed
+  getPage: () => Promise<any>;
+  // Marks a selector or element ref as a password-like field, so what this
+  // call types into it is redacted from the audit log
+  markSecretTarget: (target: string) => void;
+  // Ask the client's LLM for a completion (MCP sampling); null when the
+  // client doesn't support it. Rejects when the user declines.
+  createMessage: ((params: CreateMessageRequest["params"]) => Promise<CreateMessageResult>) | null;
+  // Ask the user for input matching requestedSchema (MCP elicitation); null
+  // when the client doesn't support it. Accepted content has been validated.
+  elicit: ((params: ElicitRequest["params"]) => Promise<ElicitResult>) | null;
+}
+
+// What is known about the server's setup before any call is made
+type ToolSetup = Pick<ToolContext, "bashPolicy" | "fsPolicy" | "browser" | "search" | "credentials">;
+
+// A self-contained tool: what gets advertised plus how it is executed
+interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Tool["inputSchema"];
+  // Shape of the result's structuredContent, for tools that return data
+  outputSchema?: Tool["outputSchema"];
+  // Hints for clients deciding whether to ask before running the tool.
+  // Unannotated tools are treated as possibly destructive.
+  annotations?: ToolAnnotations;
+  // Why the tool can't work with this setup (e.g. a missing API key), or null.
+  // Unavailable tools aren't advertised.
+  unavailableReason?: (setup: ToolSetup) => string | null;
+  handler: (args: Record<string, any>, context: ToolContext) => Promise<CallToolResult>;
+}
+
+class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+  private config: ToolsConfig = {};
+  // Tool name -> why it is unavailable
+  private unavailable = new Map<string, string>();
+
+  // Which tools to offer and the limits they run under
+  configure(config: ToolsConfig) {
+    this.config = config;
+  }
+
+  // Ask every enabled tool whether it can work with this setup. Returns the
+  // unavailable ones with the reason.
+  checkAvailability(setup: ToolSetup): Map<string, string> {
+    this.unavailable.clear();
+    for (const tool of this.tools.values()) {
+      const reason = toolEnabled(this.config, tool.name) ? tool.unavailableReason?.(setup) : null;
+      if (reason) {
+        this.unavailable.set(tool.name, reason);
+      }
+    }
+    return new Map(this.unavailable);
+  }
+
+  register(tool: ToolDefinition) {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  registerAll(tools: ToolDefinition[]) {
+    tools.forEach((tool) => this.register(tool));
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  // Enabled tools whose prerequisites are met
+  list(): Tool[] {
+    return this.offered().map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+      ...(tool.outputSchema ? { outputSchema: tool.outputSchema } : {}),
+      ...(tool.annotations ? { annotations: tool.annotations } : {}),
+    }));
+  }
+
+  // Validate arguments against the tool's inputSchema before running it within
+  // its configured limits. Every failure - unknown, disabled or unavailable
+  // tool, bad arguments, a timeout or a handler that throws - comes back as an
+  // isError result rather than a protocol error.
+  async call(name: string, args: Record<string, any>, context: ToolContext): Promise<CallToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return errorResult(`Unknown tool: ${name}. Available tools: ${this.offered().map((offered) => offered.name).join(", ")}`);
+    }
+    if (!toolEnabled(this.config, name)) {
+      return errorResult(`Tool '${name}' is disabled in the server configuration`);
+    }
+    if (this.unavailable.has(name)) {
+      return errorResult(`Tool '${name}' is unavailable: ${this.unavailable.get(name)}`);
+    }
+
+    const validation = validateSchema(tool.inputSchema, args);
+    if (!validation.valid) {
+      return errorResult(`Invalid arguments for tool '${name}':\n${formatErrors(validation.errors)}`);
+    }
+
+    const limits = limitsFor(this.config, name);
+    let result: CallToolResult;
+    try {
+      result = limits.timeoutMs
+        ? await runWithTimeout(tool, validation.value, context, limits.timeoutMs)
+        : await tool.handler(validation.value, context);
+    } catch (error) {
+      return errorResult(`Error executing tool '${name}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    // Clients reject structuredContent that doesn't match the advertised
+    // outputSchema, so catch a tool breaking its own contract here
+    if (tool.outputSchema && !result.isError) {
+      if (result.structuredContent === undefined) {
+        return errorResult(`Tool '${name}' declares an outputSchema but returned no structuredContent`);
+      }
+      const output = validateSchema(tool.outputSchema, result.structuredContent);
+      if (!output.valid) {
+        return errorResult(`Tool '${name}' returned structuredContent that doesn't match its outputSchema:\n${formatErrors(output.errors)}`);
+      }
+    }
+    return limits.maxOutputChars ? truncateText(result, limits.maxOutputChars) : result;
+  }
+
+  private offered(): ToolDefinition[] {
+    return Array.from(this.tools.values())
+      .filter((tool) => toolEnabled(this.config, tool.name) && !this.unavailable.has(tool.name));
+  }
+
+  // Load every .js module in a directory. A module may export a single tool,
+  // an array of tools, or either of those as `default` or `tools`.
+  loadFromDirectory(dir: string): string[] {
+    const root = path.resolve(dir);
+    if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+      throw new Error(`Tools directory not found: ${root}`);
+    }
+
+    const loaded: string[] = [];
+    const files = fs.readdirSync(root)
+      .filter((file) => file.endsWith(".js") || file.endsWith(".cjs"))
+      .sort();
+
+    for (const file of files) {
+      const modulePath = path.join(root, file);
+      const exported = require(modulePath);
+      const candidates = exported.tools ?? exported.default ?? exported;
+      const tools = Array.isArray(candidates) ? candidates : [candidates];
+
+      for (const tool of tools) {
+        if (!isToolDefinition(tool)) {
+          throw new Error(`Invalid tool module ${modulePath}: expected { name, description, inputSchema, handler }`);
+        }
+        this.register(tool);
+        loaded.push(tool.name);
+      }
+    }
+
+    return loaded;
+  }
+}
+
+// Abort the handler's signal once the time is up. Handlers that ignore the
+// signal are abandoned, and the caller gets the timeout error either way.
+async function runWithTimeout(tool: ToolDefinition, args: Record<string, any>, context: ToolContext, timeoutMs: number): Promise<CallToolResult> {
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  context.signal.addEventListener("abort", cancel, { once: true });
+
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<CallToolResult>((resolve) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve(errorResult(`Tool '${tool.name}' timed out after ${timeoutMs} ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([tool.handler(args, { ...context, signal: controller.signal }), timedOut]);
+  } finally {
+    clearTimeout(timer);
+    context.signal.removeEventListener("abort", cancel);
+  }
+}
+
+function truncateText(result: CallToolResult, maxChars: number): CallToolResult {
+  return {
+    ...result,
+    content: result.content.map((item) =>
+      item.type === "text" && item.text.length > maxChars
+        ? { ...item, text: `${item.text.slice(0, maxChars)}\n[... truncated ${item.text.length - maxChars} characters ...]` }
+        : item
+    ),
+  };
+}
+
+function textResult(text: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text,
+      },
+    ],
+  };
+}
+
+// Text for the model plus the same information as data for programs
+function structuredResult(text: string, data: object): CallToolResult {
+  return {
+    ...textResult(text),
+    structuredContent: data as Record<string, unknown>,
+  };
+}
+
+function errorResult(text: string): CallToolResult {
+  return {
+    ...textResult(text),
+    isError: true,
+  };
+}
+
+function isToolDefinition(value: any): value is ToolDefinition {
+  return !!value &&
+    typeof value.name === "string" &&
+    typeof value.description === "string" &&
+    typeof value.inputSchema === "object" &&
+    typeof value.handler === "function";
+}
+
+export { ToolRegistry, ToolDefinition, ToolContext, ToolSetup, textResult, structuredResult, errorResult };
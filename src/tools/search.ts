@@ -0,0 +1,78 @@
+import { ToolDefinition, structuredResult, errorResult } from "./registry";
+import { abortable } from "./abortable";
+import { SearchResult } from "../search";
+
+function formatResults(query: string, provider: string, results: SearchResult[]): string {
+  if (results.length === 0) {
+    return `No ${provider} results for "${query}"`;
+  }
+  const lines = results.map((result, index) =>
+    `${index + 1}. ${result.title} (score ${result.score})\n   ${result.url}\n   ${result.snippet}`
+  );
+  return `${provider} results for "${query}":\n\n${lines.join("\n\n")}`;
+}
+
+const webSearch: ToolDefinition = {
+  name: "web_search",
+  description: "Search for information and get back ranked results (title, URL, snippet, score). Depending on server configuration this searches the web or a local document index.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        minLength: 1,
+        description: "The search query - be specific for best results",
+      },
+      limit: {
+        type: "integer",
+        minimum: 1,
+        maximum: 50,
+        description: "Maximum number of results",
+        default: 5,
+      },
+    },
+    required: ["query"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      query: { type: "string" },
+      provider: { type: "string" },
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            title: { type: "string" },
+            url: { type: "string" },
+            snippet: { type: "string" },
+            score: { type: "number" },
+          },
+          required: ["title", "url", "snippet", "score"],
+        },
+      },
+    },
+    required: ["query", "provider", "results"],
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  unavailableReason: (setup) => setup.search.unavailableReason(),
+  handler: async (args, context) => {
+    const provider = context.search;
+    try {
+      await context.reportProgress(`Searching ${provider.name} for "${args.query}"`);
+      // Neither backend can be interrupted midway, so a cancelled search just stops waiting
+      const results = await abortable(provider.search(args.query, { limit: args.limit }), context.signal);
+      context.log(`🔍 ${provider.name} search "${args.query}": ${results.length} result(s)`);
+
+      return structuredResult(formatResults(args.query, provider.name, results), {
+        query: args.query,
+        provider: provider.name,
+        results,
+      });
+    } catch (error) {
+      return errorResult(`Error performing ${provider.name} search: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+};
+
+export { webSearch };
@@ -0,0 +1,160 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { ToolDefinition, ToolContext, structuredResult, errorResult } from "./registry";
+import { needsBrowser } from "./page";
+
+// Tools that condense large content with the client's LLM (MCP sampling), so
+// only the summary ends up in the main conversation.
+
+interface SummaryOutput {
+  // What was summarized: a URL, resource URI or job ID
+  source: string;
+  // Characters of content before summarizing
+  originalLength: number;
+  summary: string;
+  // Model the client used, as it reported it
+  model: string;
+}
+
+// More than this is cut off before it is sent for summarizing
+const MAX_SOURCE_CHARS = 100000;
+
+const SUMMARY_SYSTEM_PROMPT = "You condense content for another assistant that has little room for it. " +
+  "Keep facts, names, numbers, errors and anything actionable; drop boilerplate and repetition. " +
+  "Reply with the summary only.";
+
+const summaryArgs = {
+  focus: {
+    type: "string",
+    description: "What the summary should concentrate on, e.g. \"pricing\" or \"failing tests\"",
+  },
+  maxWords: {
+    type: "integer",
+    minimum: 20,
+    maximum: 1000,
+    description: "Rough length limit of the summary",
+    default: 200,
+  },
+};
+
+const summaryOutputSchema = {
+  type: "object" as const,
+  properties: {
+    source: { type: "string" },
+    originalLength: { type: "integer", description: "Characters of content before summarizing" },
+    summary: { type: "string" },
+    model: { type: "string", description: "Model that wrote the summary" },
+  },
+  required: ["source", "originalLength", "summary", "model"],
+};
+
+async function summarize(context: ToolContext, source: string, what: string, text: string, args: Record<string, any>): Promise<CallToolResult> {
+  if (!context.createMessage) {
+    return errorResult("The client doesn't support sampling, so nothing can be summarized; read the content directly instead");
+  }
+  if (!text.trim()) {
+    return errorResult(`There is nothing to summarize: ${source} is empty`);
+  }
+
+  const clipped = text.length > MAX_SOURCE_CHARS;
+  const instruction = `Summarize this ${what} in at most ${args.maxWords} words${args.focus ? `, concentrating on: ${args.focus}` : ""}.` +
+    (clipped ? ` Only the first ${MAX_SOURCE_CHARS} of ${text.length} characters are included.` : "");
+
+  await context.reportProgress(`Asking the client's model to summarize ${source}`);
+  const result = await context.createMessage({
+    messages: [{
+      role: "user",
+      content: { type: "text", text: `${instruction}\n\n<content>\n${text.slice(0, MAX_SOURCE_CHARS)}\n</content>` },
+    }],
+    systemPrompt: SUMMARY_SYSTEM_PROMPT,
+    // Roughly two tokens per word plus some slack
+    maxTokens: args.maxWords * 2 + 100,
+    includeContext: "none",
+    modelPreferences: { speedPriority: 0.8, costPriority: 0.8, intelligencePriority: 0.4 },
+  });
+  if (result.content.type !== "text") {
+    return errorResult(`Expected a text summary but the client returned ${result.content.type} content`);
+  }
+  context.log(`🧠 Summarized ${source} (${text.length} characters) with ${result.model}`);
+
+  const output: SummaryOutput = {
+    source,
+    originalLength: text.length,
+    summary: result.content.text.trim(),
+    model: result.model,
+  };
+  return structuredResult(`Summary of ${source} (${output.originalLength} characters):\n\n${output.summary}`, output);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+const summarizePage: ToolDefinition = {
+  name: "summarize_page",
+  description: "Summarize the page open in the browser's active tab, using the client's model (MCP sampling). Use it for long pages instead of browser_get_text or browser_snapshot when only the gist is needed.",
+  inputSchema: {
+    type: "object",
+    properties: summaryArgs,
+  },
+  outputSchema: summaryOutputSchema,
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    try {
+      const page = await context.getPage();
+      const url: string = page.url();
+      const title: string = await page.title();
+      const text: string = await page.innerText("body");
+      return await summarize(context, url, `web page${title ? ` ("${title}")` : ""}`, text, args);
+    } catch (error) {
+      return errorResult(`Error summarizing the page: ${errorMessage(error)}`);
+    }
+  },
+};
+
+const summarizeOutput: ToolDefinition = {
+  name: "summarize_output",
+  description: "Summarize a large command output using the client's model (MCP sampling): a command-output:// resource from execute_bash, log://server, or a background job's output. Use it instead of reading the whole output when only the outcome matters.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      uri: {
+        type: "string",
+        description: "Resource URI, e.g. command-output://3 from execute_bash's \"Output resource\" line",
+      },
+      jobId: {
+        type: "string",
+        description: "ID of a background job from job_start (instead of uri)",
+      },
+      ...summaryArgs,
+    },
+  },
+  outputSchema: summaryOutputSchema,
+  annotations: { readOnlyHint: true, openWorldHint: false },
+  handler: async (args, context) => {
+    if (!args.uri === !args.jobId) {
+      return errorResult("Pass either uri or jobId");
+    }
+
+    let text: string;
+    try {
+      if (args.uri) {
+        const contents = context.resources.read(args.uri);
+        if (!("text" in contents)) {
+          return errorResult(`${args.uri} is binary (${contents.mimeType}) and can't be summarized`);
+        }
+        text = contents.text as string;
+      } else {
+        const slice = context.jobs.readOutput(args.jobId, 0, Infinity);
+        text = slice.dropped > 0 ? `[first ${slice.dropped} characters no longer buffered]\n${slice.data}` : slice.data;
+      }
+      return await summarize(context, args.uri ?? `job ${args.jobId}`, "command output", text, args);
+    } catch (error) {
+      return errorResult(`Error summarizing ${args.uri ?? `job ${args.jobId}`}: ${errorMessage(error)}`);
+    }
+  },
+};
+
+const summaryTools: ToolDefinition[] = [summarizePage, summarizeOutput];
+
+export { summaryTools, SummaryOutput };
@@ -0,0 +1,187 @@
+import { ToolDefinition, textResult, errorResult } from "./registry";
+import { TabInfo } from "../browser";
+import { needsBrowser } from "./page";
+
+function describeTab(tab: TabInfo): string {
+  return `${tab.active ? "* " : "  "}${tab.id}: ${tab.title || "(untitled)"} — ${tab.url}`;
+}
+
+function activeTabLine(tab: TabInfo | null): string {
+  return tab ? `Active tab: ${tab.id} — ${tab.title || "(untitled)"} (${tab.url})` : "No tabs open";
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+const tabIdSchema = {
+  type: "string",
+  description: "Tab ID from browser_list_tabs or browser_new_tab, e.g. tab-2",
+};
+
+const browserNewTab: ToolDefinition = {
+  name: "browser_new_tab",
+  description: "Open a new browser tab, optionally at a URL, and make it the active tab",
+  inputSchema: {
+    type: "object",
+    properties: {
+      url: {
+        type: "string",
+        description: "URL to open in the new tab (blank page if omitted)",
+      },
+    },
+  },
+  annotations: { destructiveHint: false, openWorldHint: true },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    try {
+      const tab = await context.browser.newTab(args.url);
+      return textResult(`Opened ${tab.id}\n${activeTabLine(tab)}`);
+    } catch (error) {
+      return errorResult(`Error opening tab: ${errorMessage(error)}`);
+    }
+  },
+};
+
+const browserListTabs: ToolDefinition = {
+  name: "browser_list_tabs",
+  description: "List open browser tabs with their IDs, titles and URLs; the active tab is marked with *",
+  inputSchema: {
+    type: "object",
+    properties: {},
+  },
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    if (!context.browser.isOpen) {
+      return textResult("No browser session is open");
+    }
+    const tabs = await context.browser.listTabs();
+    if (tabs.length === 0) {
+      return textResult("No tabs open");
+    }
+    return textResult(tabs.map(describeTab).join("\n"));
+  },
+};
+
+const browserSwitchTab: ToolDefinition = {
+  name: "browser_switch_tab",
+  description: "Make another tab the active one; later browser_* tools act on it",
+  inputSchema: {
+    type: "object",
+    properties: {
+      tab_id: tabIdSchema,
+    },
+    required: ["tab_id"],
+  },
+  annotations: { destructiveHint: false, idempotentHint: true, openWorldHint: false },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    try {
+      return textResult(activeTabLine(await context.browser.switchTab(args.tab_id)));
+    } catch (error) {
+      return errorResult(`Error switching tab: ${errorMessage(error)}`);
+    }
+  },
+};
+
+const browserCloseTab: ToolDefinition = {
+  name: "browser_close_tab",
+  description: "Close a browser tab (the active one if no tab_id is given)",
+  inputSchema: {
+    type: "object",
+    properties: {
+      tab_id: tabIdSchema,
+    },
+  },
+  annotations: { destructiveHint: true, openWorldHint: false },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    if (!context.browser.isOpen) {
+      return errorResult("No browser session is open");
+    }
+    try {
+      const id = args.tab_id ?? (await context.browser.describeActiveTab()).id;
+      const active = await context.browser.closeTab(id);
+      return textResult(`Closed ${id}\n${activeTabLine(active)}`);
+    } catch (error) {
+      return errorResult(`Error closing tab: ${errorMessage(error)}`);
+    }
+  },
+};
+
+const browserBack: ToolDefinition = {
+  name: "browser_back",
+  description: "Go back one page in the active tab's history",
+  inputSchema: {
+    type: "object",
+    properties: {},
+  },
+  annotations: { destructiveHint: false, openWorldHint: true },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    try {
+      const page = await context.getPage();
+      const response = await page.goBack({ waitUntil: "domcontentloaded", timeout: 30000 });
+      const tab = await context.browser.describeActiveTab();
+      return textResult(`${response === null ? "No previous page in history" : "Went back"}\n${activeTabLine(tab)}`);
+    } catch (error) {
+      return errorResult(`Error going back: ${errorMessage(error)}`);
+    }
+  },
+};
+
+const browserForward: ToolDefinition = {
+  name: "browser_forward",
+  description: "Go forward one page in the active tab's history",
+  inputSchema: {
+    type: "object",
+    properties: {},
+  },
+  annotations: { destructiveHint: false, openWorldHint: true },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    try {
+      const page = await context.getPage();
+      const response = await page.goForward({ waitUntil: "domcontentloaded", timeout: 30000 });
+      const tab = await context.browser.describeActiveTab();
+      return textResult(`${response === null ? "No next page in history" : "Went forward"}\n${activeTabLine(tab)}`);
+    } catch (error) {
+      return errorResult(`Error going forward: ${errorMessage(error)}`);
+    }
+  },
+};
+
+const browserCloseSession: ToolDefinition = {
+  name: "browser_close_session",
+  description: "Close the browser and all its tabs (releasing the Browserbase session if any). The next browser_* call starts a fresh one.",
+  inputSchema: {
+    type: "object",
+    properties: {},
+  },
+  annotations: { destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  unavailableReason: needsBrowser,
+  handler: async (args, context) => {
+    if (!context.browser.isOpen) {
+      return textResult("No browser session is open");
+    }
+    try {
+      await context.browser.close();
+      return textResult(`Closed the ${context.browser.providerName} browser session`);
+    } catch (error) {
+      return errorResult(`Error closing browser session: ${errorMessage(error)}`);
+    }
+  },
+};
+
+const tabTools: ToolDefinition[] = [
+  browserNewTab,
+  browserListTabs,
+  browserSwitchTab,
+  browserCloseTab,
+  browserBack,
+  browserForward,
+  browserCloseSession,
+];
+
+export { tabTools };
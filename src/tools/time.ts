@@ -0,0 +1,40 @@
+import { ToolDefinition, structuredResult } from "./registry";
+
+interface TimeOutput {
+  // ISO 8601 timestamp in UTC
+  iso: string;
+  // IANA name of the server's time zone, e.g. Europe/Berlin
+  timezone: string;
+  // Offset of that zone from UTC right now, in minutes
+  utcOffsetMinutes: number;
+}
+
+const getTime: ToolDefinition = {
+  name: "get_time",
+  description: "Gets the current time",
+  inputSchema: {
+    type: "object",
+    properties: {},
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      iso: { type: "string", description: "Current time as an ISO 8601 UTC timestamp" },
+      timezone: { type: "string", description: "The server's IANA time zone" },
+      utcOffsetMinutes: { type: "integer", description: "Offset of the server's time zone from UTC" },
+    },
+    required: ["iso", "timezone", "utcOffsetMinutes"],
+  },
+  annotations: { readOnlyHint: true, openWorldHint: false },
+  handler: async () => {
+    const now = new Date();
+    const output: TimeOutput = {
+      iso: now.toISOString(),
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      utcOffsetMinutes: -now.getTimezoneOffset(),
+    };
+    return structuredResult(`Current time: ${output.iso} (server time zone ${output.timezone})`, output);
+  },
+};
+
+export { getTime, TimeOutput };
@@ -0,0 +1,124 @@
+import * as fs from "fs";
+import * as path from "path";
+import { validateSchema, formatErrors } from "./schema";
+
+// Where the fs_* tools may read and write. Paths are checked after resolving
+// symlinks, so a link inside a root can't be used to reach outside it.
+interface FsPolicy {
+  // Directories the tools are confined to; relative paths resolve against the first
+  roots: string[];
+  // Refuse writes, patches included
+  readOnly: boolean;
+  // Largest file the tools will read, write or search
+  maxFileBytes: number;
+}
+
+class PathNotAllowed extends Error {}
+
+const DEFAULT_FS_POLICY: FsPolicy = {
+  roots: [process.cwd()],
+  readOnly: false,
+  maxFileBytes: 5 * 1024 * 1024,
+};
+
+const FS_POLICY_SCHEMA = {
+  type: "object",
+  properties: {
+    roots: { type: "array", items: { type: "string" }, minItems: 1 },
+    readOnly: { type: "boolean" },
+    maxFileBytes: { type: "integer", minimum: 1 },
+  },
+  additionalProperties: false,
+};
+
+// Defaults, then MCP_FS_ROOTS (a path-delimiter separated list), then explicit overrides
+function loadFsPolicy(overrides: Partial<FsPolicy> = {}): FsPolicy {
+  const fromEnv: Partial<FsPolicy> = {};
+  if (process.env.MCP_FS_ROOTS) {
+    fromEnv.roots = process.env.MCP_FS_ROOTS.split(path.delimiter).filter(Boolean);
+  }
+
+  const policy = { ...DEFAULT_FS_POLICY, ...fromEnv, ...overrides };
+  const validation = validateSchema(FS_POLICY_SCHEMA, policy);
+  if (!validation.valid) {
+    throw new Error(`Invalid filesystem policy:\n${formatErrors(validation.errors)}`);
+  }
+
+  policy.roots = policy.roots.map((root) => {
+    const resolved = path.resolve(root);
+    if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+      throw new Error(`Filesystem root not found: ${resolved}`);
+    }
+    return fs.realpathSync(resolved);
+  });
+  return policy;
+}
+
+// Resolve a requested path (absolute, or relative to the first root) and throw
+// PathNotAllowed unless it lies inside one of the roots. Paths that don't exist
+// yet are checked through their nearest existing parent.
+function resolveInRoots(policy: FsPolicy, requested: string): string {
+  const real = realPath(path.resolve(policy.roots[0], requested));
+  if (!policy.roots.some((root) => isInside(root, real))) {
+    throw new PathNotAllowed(`${requested} is outside the allowed roots (${policy.roots.join(", ")})`);
+  }
+  return real;
+}
+
+// Longest chain of dangling symlinks realPath follows
+const MAX_SYMLINK_HOPS = 40;
+
+// fs.realpathSync for paths that may not exist yet. A dangling symlink on the
+// way is followed to its target, since writing through it creates that target.
+function realPath(target: string, hops = 0): string {
+  let existing = target;
+  const missing: string[] = [];
+  while (!fs.lstatSync(existing, { throwIfNoEntry: false })) {
+    missing.unshift(path.basename(existing));
+    existing = path.dirname(existing);
+  }
+
+  if (!fs.existsSync(existing)) {
+    if (hops >= MAX_SYMLINK_HOPS) {
+      throw new PathNotAllowed(`too many levels of symbolic links resolving ${target}`);
+    }
+    const linkTarget = path.resolve(path.dirname(existing), fs.readlinkSync(existing));
+    return realPath(path.join(linkTarget, ...missing), hops + 1);
+  }
+  return path.join(fs.realpathSync(existing), ...missing);
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+// A path as shown to the model: relative to the first root when possible
+function displayPath(policy: FsPolicy, absolute: string): string {
+  const root = policy.roots.find((candidate) => isInside(candidate, absolute));
+  if (root === policy.roots[0]) {
+    return path.relative(root, absolute) || ".";
+  }
+  return absolute;
+}
+
+function assertWritable(policy: FsPolicy) {
+  if (policy.readOnly) {
+    throw new PathNotAllowed("the filesystem tools are configured read-only");
+  }
+}
+
+// Files containing NUL bytes are treated as binary and not shown as text
+function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8000).includes(0);
+}
+
+export {
+  FsPolicy,
+  PathNotAllowed,
+  loadFsPolicy,
+  resolveInRoots,
+  displayPath,
+  assertWritable,
+  isBinary,
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { Redactor } from "../src/audit";
+
+describe("Redactor", () => {
+  const redactor = new Redactor(["configured-credential-value"]);
+
+  it("removes configured secrets and well-known key formats from text", () => {
+    expect(redactor.redact("key configured-credential-value and sk-abcdefghijklmnopqrstuvwxyz"))
+      .toBe("key [REDACTED] and [REDACTED]");
+    expect(redactor.redact("curl -H 'Authorization: Bearer abcdef123456'"))
+      .toBe("curl -H 'Authorization: Bearer [REDACTED]'");
+  });
+
+  it("redacts values under secret-looking keys", () => {
+    expect(redactor.redact({ headers: { Authorization: "Basic xyz", Accept: "text/html" }, max_tokens: 500 }))
+      .toEqual({ headers: { Authorization: "[REDACTED]", Accept: "text/html" }, max_tokens: 500 });
+  });
+
+  it("redacts text typed into fields whose selector names a secret", () => {
+    expect(redactor.redact({ selector: "#password", text: "hunter2" })).toEqual({ selector: "#password", text: "[REDACTED]" });
+    expect(redactor.redact({ selector: "#email", text: "ada@example.com" })).toEqual({ selector: "#email", text: "ada@example.com" });
+  });
+
+  it("redacts text typed into refs and selectors found to be secret fields", () => {
+    const secretTargets = new Set(["e7", "#pw"]);
+    const args = {
+      fields: [
+        { ref: "e3", value: "ada" },
+        { ref: "e7", value: "hunter2" },
+        { selector: "#pw", value: 1234 },
+      ],
+    };
+
+    expect(redactor.redact(args, secretTargets)).toEqual({
+      fields: [
+        { ref: "e3", value: "ada" },
+        { ref: "e7", value: "[REDACTED]" },
+        { selector: "#pw", value: "[REDACTED]" },
+      ],
+    });
+    expect(redactor.redact({ ref: "e7", text: "hunter2" })).toEqual({ ref: "e7", text: "hunter2" });
+  });
+});
@@ -0,0 +1,136 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { UrlFetcher, FetchError } from "../src/fetcher";
+
+// Two local servers on different ports, i.e. different origins:
+//   /echo       the request headers as JSON
+//   /redirect   302 to the `to` query parameter
+//   /big        5000 bytes of text
+//   /counter    how many times it has been requested
+let origin: string;
+let otherOrigin: string;
+const servers: http.Server[] = [];
+let counter = 0;
+
+function handle(req: http.IncomingMessage, res: http.ServerResponse) {
+  const url = new URL(req.url || "/", "http://localhost");
+  switch (url.pathname) {
+    case "/echo":
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify(req.headers));
+      return;
+    case "/redirect":
+      res.writeHead(302, { location: url.searchParams.get("to")! });
+      res.end();
+      return;
+    case "/big":
+      res.writeHead(200, { "content-type": "text/plain" });
+      res.end("x".repeat(5000));
+      return;
+    case "/counter":
+      res.writeHead(200, { "content-type": "text/plain" });
+      res.end(String(++counter));
+      return;
+    default:
+      res.writeHead(404, { "content-type": "text/plain" });
+      res.end("not found");
+  }
+}
+
+async function listen(): Promise<string> {
+  const server = http.createServer(handle);
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+beforeAll(async () => {
+  origin = await listen();
+  otherOrigin = await listen();
+});
+
+afterAll(async () => {
+  await Promise.all(servers.map((server) => new Promise((resolve) => {
+    server.closeAllConnections();
+    server.close(resolve);
+  })));
+});
+
+let cacheDir: string;
+let fetcher: UrlFetcher;
+
+beforeEach(() => {
+  cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "fetch-cache-test-"));
+  fetcher = new UrlFetcher({ cacheDir, allowLoopback: true, maxBytes: 1000 });
+});
+
+afterEach(() => {
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+});
+
+const credentials = { Authorization: "Bearer s3cret", Cookie: "session=abc", "X-Trace": "kept" };
+
+describe("UrlFetcher", () => {
+  it("refuses hosts on this machine unless allowed", async () => {
+    const strict = new UrlFetcher({ cacheDir });
+
+    await expect(strict.fetch({ url: `${origin}/echo` })).rejects.toThrow(FetchError);
+    await expect(strict.fetch({ url: `${origin}/echo` })).rejects.toThrow(/is on this machine .* set fetch.allowLoopback/);
+  });
+
+  it("checks every redirect hop", async () => {
+    const target = encodeURIComponent("http://169.254.169.254/latest/meta-data/");
+
+    await expect(fetcher.fetch({ url: `${origin}/redirect?to=${target}` })).rejects.toThrow(/is on a private network/);
+  });
+
+  it("drops credential headers when a redirect leads to another origin", async () => {
+    const to = encodeURIComponent(`${otherOrigin}/echo`);
+    const page = await fetcher.fetch({ url: `${origin}/redirect?to=${to}`, headers: credentials });
+    const received = JSON.parse(page.body);
+
+    expect(page.finalUrl).toBe(`${otherOrigin}/echo`);
+    expect(received.authorization).toBeUndefined();
+    expect(received.cookie).toBeUndefined();
+    expect(received["x-trace"]).toBe("kept");
+  });
+
+  it("keeps credential headers on a same-origin redirect", async () => {
+    const page = await fetcher.fetch({ url: `${origin}/redirect?to=/echo`, headers: credentials });
+    const received = JSON.parse(page.body);
+
+    expect(received.authorization).toBe("Bearer s3cret");
+    expect(received.cookie).toBe("session=abc");
+  });
+
+  it("cuts off bodies longer than maxBytes", async () => {
+    const page = await fetcher.fetch({ url: `${origin}/big` });
+
+    expect(page.truncated).toBe(true);
+    expect(page.body).toBe("x".repeat(1000));
+  });
+
+  it("serves repeated GETs from the cache", async () => {
+    const first = await fetcher.fetch({ url: `${origin}/counter` });
+    const second = await fetcher.fetch({ url: `${origin}/counter` });
+    const refreshed = await fetcher.fetch({ url: `${origin}/counter`, refresh: true });
+
+    expect(first.fromCache).toBe(false);
+    expect(second).toMatchObject({ fromCache: true, body: first.body });
+    expect(refreshed.fromCache).toBe(false);
+    expect(Number(refreshed.body)).toBe(Number(first.body) + 1);
+  });
+
+  it("doesn't cache responses to credentialed requests", async () => {
+    const first = await fetcher.fetch({ url: `${origin}/counter`, headers: { Authorization: "Bearer s3cret" } });
+    const second = await fetcher.fetch({ url: `${origin}/counter`, headers: { Authorization: "Bearer s3cret" } });
+
+    expect(second.fromCache).toBe(false);
+    expect(Number(second.body)).toBe(Number(first.body) + 1);
+    expect(fs.readdirSync(cacheDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,148 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FsPolicy, PathNotAllowed, loadFsPolicy, resolveInRoots } from "../src/workspace";
+import { ToolRegistry, ToolContext } from "../src/tools/registry";
+import { fsTools } from "../src/tools/fs";
+
+// A root with symlinks pointing out of it, next to a directory it must not reach:
+//   root/notes.txt
+//   root/sub/                 root/inside -> root/sub
+//   root/escape -> outside/   root/leak.txt -> outside/secret.txt
+//   root/dangling -> outside/new.txt (doesn't exist yet)
+let base: string;
+let root: string;
+let outside: string;
+let policy: FsPolicy;
+let registry: ToolRegistry;
+let context: ToolContext;
+
+beforeEach(() => {
+  base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "fs-test-")));
+  root = path.join(base, "root");
+  outside = path.join(base, "outside");
+  fs.mkdirSync(path.join(root, "sub"), { recursive: true });
+  fs.mkdirSync(outside);
+  fs.writeFileSync(path.join(root, "notes.txt"), "one\ntwo\nthree\n");
+  fs.writeFileSync(path.join(outside, "secret.txt"), "top secret\n");
+  fs.symlinkSync(path.join(root, "sub"), path.join(root, "inside"));
+  fs.symlinkSync(outside, path.join(root, "escape"));
+  fs.symlinkSync(path.join(outside, "secret.txt"), path.join(root, "leak.txt"));
+  fs.symlinkSync(path.join(outside, "new.txt"), path.join(root, "dangling"));
+
+  policy = loadFsPolicy({ roots: [root] });
+  registry = new ToolRegistry();
+  registry.registerAll(fsTools);
+  context = { fsPolicy: policy, log: () => {}, logAt: () => {} } as unknown as ToolContext;
+});
+
+afterEach(() => {
+  fs.rmSync(base, { recursive: true, force: true });
+});
+
+function text(result: { content?: any[] }): string {
+  return (result.content ?? []).map((item) => item.text).join("\n");
+}
+
+describe("resolveInRoots", () => {
+  it("resolves paths relative to the first root", () => {
+    expect(resolveInRoots(policy, "notes.txt")).toBe(path.join(root, "notes.txt"));
+    expect(resolveInRoots(policy, "sub/new/file.txt")).toBe(path.join(root, "sub/new/file.txt"));
+  });
+
+  it("refuses paths outside the roots", () => {
+    expect(() => resolveInRoots(policy, "../outside/secret.txt")).toThrow(PathNotAllowed);
+    expect(() => resolveInRoots(policy, path.join(outside, "secret.txt"))).toThrow(PathNotAllowed);
+    expect(() => resolveInRoots(policy, `${root}-sibling/file.txt`)).toThrow(PathNotAllowed);
+  });
+
+  it("follows symlinks before checking", () => {
+    expect(resolveInRoots(policy, "inside/file.txt")).toBe(path.join(root, "sub/file.txt"));
+    expect(() => resolveInRoots(policy, "escape/secret.txt")).toThrow(PathNotAllowed);
+    expect(() => resolveInRoots(policy, "leak.txt")).toThrow(PathNotAllowed);
+    expect(() => resolveInRoots(policy, "escape/missing/file.txt")).toThrow(PathNotAllowed);
+  });
+
+  it("follows dangling symlinks to where a write would land", () => {
+    expect(() => resolveInRoots(policy, "dangling")).toThrow(PathNotAllowed);
+  });
+});
+
+describe("fs tools", () => {
+  it("won't read or write through a symlink out of the root", async () => {
+    const read = await registry.call("fs_read", { path: "leak.txt" }, context);
+    expect(read.isError).toBe(true);
+    expect(text(read)).toMatch(/^Access denied: leak.txt is outside the allowed roots/);
+
+    const write = await registry.call("fs_write", { path: "dangling", content: "gotcha" }, context);
+    expect(write.isError).toBe(true);
+    expect(fs.existsSync(path.join(outside, "new.txt"))).toBe(false);
+  });
+
+  it("refuses writes when read-only", async () => {
+    context.fsPolicy = { ...policy, readOnly: true };
+
+    const result = await registry.call("fs_write", { path: "notes.txt", content: "" }, context);
+    expect(text(result)).toBe("Access denied: the filesystem tools are configured read-only");
+    expect(fs.readFileSync(path.join(root, "notes.txt"), "utf8")).toBe("one\ntwo\nthree\n");
+  });
+
+  it("reports invalid arguments with the schema errors", async () => {
+    const result = await registry.call("fs_read", { start_line: 0 }, context);
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toBe("Invalid arguments for tool 'fs_read':\n- path: is required\n- start_line: must be >= 1");
+  });
+});
+
+describe("fs_apply_patch", () => {
+  const modify = (file: string, from: string, to: string) =>
+    `--- a/${file}\n+++ b/${file}\n@@ -1,3 +1,3 @@\n-${from}\n+${to}\n two\n three\n`;
+
+  it("applies a patch inside the root", async () => {
+    const result = await registry.call("fs_apply_patch", { patch: modify("notes.txt", "one", "ONE") }, context);
+
+    expect(text(result)).toBe("Patch applied to 1 file(s):\nM notes.txt (+1 -1)");
+    expect(fs.readFileSync(path.join(root, "notes.txt"), "utf8")).toBe("ONE\ntwo\nthree\n");
+  });
+
+  it("won't patch files through a symlink out of the root", async () => {
+    const patch = "--- a/escape/secret.txt\n+++ b/escape/secret.txt\n@@ -1 +1 @@\n-top secret\n+leaked\n";
+    const result = await registry.call("fs_apply_patch", { patch }, context);
+
+    expect(text(result)).toMatch(/^Access denied: escape\/secret.txt is outside the allowed roots/);
+    expect(fs.readFileSync(path.join(outside, "secret.txt"), "utf8")).toBe("top secret\n");
+  });
+
+  it("won't create files outside the root", async () => {
+    const patch = "--- /dev/null\n+++ b/../outside/planted.txt\n@@ -0,0 +1 @@\n+planted\n";
+    const result = await registry.call("fs_apply_patch", { patch }, context);
+
+    expect(result.isError).toBe(true);
+    expect(fs.existsSync(path.join(outside, "planted.txt"))).toBe(false);
+  });
+
+  it("writes nothing unless every file patch applies", async () => {
+    const patch = "--- /dev/null\n+++ b/created.txt\n@@ -0,0 +1 @@\n+new\n" + modify("notes.txt", "missing", "x");
+    const result = await registry.call("fs_apply_patch", { patch }, context);
+
+    expect(text(result)).toMatch(/^Patch not applied: hunk 1 .* does not apply to notes.txt/);
+    expect(fs.existsSync(path.join(root, "created.txt"))).toBe(false);
+  });
+
+  it("applies several file patches for one path on top of each other", async () => {
+    const second = "--- a/notes.txt\n+++ b/notes.txt\n@@ -1,3 +1,3 @@\n ONE\n two\n-three\n+THREE\n";
+    const result = await registry.call("fs_apply_patch", { patch: modify("notes.txt", "one", "ONE") + second }, context);
+
+    expect(text(result)).toBe("Patch applied to 1 file(s):\nM notes.txt (+1 -1)\nM notes.txt (+1 -1)");
+    expect(fs.readFileSync(path.join(root, "notes.txt"), "utf8")).toBe("ONE\ntwo\nTHREE\n");
+  });
+
+  it("rejects a later file patch that conflicts with an earlier one", async () => {
+    const result = await registry.call("fs_apply_patch", { patch: modify("notes.txt", "one", "ONE") + modify("notes.txt", "one", "uno") }, context);
+
+    expect(result.isError).toBe(true);
+    expect(fs.readFileSync(path.join(root, "notes.txt"), "utf8")).toBe("one\ntwo\nthree\n");
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { validateSchema, formatErrors } from "../src/schema";
+
+const schema = {
+  type: "object",
+  properties: {
+    url: { type: "string", minLength: 1, pattern: "^https?://" },
+    method: { type: "string", enum: ["GET", "POST"], default: "GET" },
+    retries: { type: "integer", minimum: 0, maximum: 5 },
+    headers: { type: "object", additionalProperties: { type: "string" } },
+    tags: { type: "array", minItems: 1, items: { type: "string" } },
+  },
+  required: ["url"],
+  additionalProperties: false,
+};
+
+describe("validateSchema", () => {
+  it("accepts valid input and fills in defaults", () => {
+    const result = validateSchema(schema, { url: "https://example.com" });
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.value).toEqual({ url: "https://example.com", method: "GET" });
+  });
+
+  it("reports every error with its path", () => {
+    const result = validateSchema(schema, {
+      method: "PUT",
+      retries: 9,
+      headers: { accept: 1.5 },
+      tags: ["a", 2],
+      extra: true,
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      { path: "url", message: "is required" },
+      { path: "method", message: 'must be one of "GET", "POST"' },
+      { path: "retries", message: "must be <= 5" },
+      { path: "headers.accept", message: "expected string, got number" },
+      { path: "tags[1]", message: "expected string, got integer" },
+      { path: "extra", message: "is not an allowed property" },
+    ]);
+  });
+
+  it("checks string and array bounds", () => {
+    const result = validateSchema(schema, { url: "ftp://example.com", tags: [] });
+
+    expect(result.errors).toEqual([
+      { path: "url", message: "must match pattern ^https?://" },
+      { path: "tags", message: "must contain at least 1 item(s)" },
+    ]);
+  });
+
+  it("tells integers from other numbers", () => {
+    expect(validateSchema(schema, { url: "http://a", retries: 1.5 }).errors).toEqual([
+      { path: "retries", message: "expected integer, got number" },
+    ]);
+    expect(validateSchema({ type: "number" }, NaN).errors).toEqual([
+      { path: "", message: "expected number, got number" },
+    ]);
+  });
+
+  it("accepts any of several types", () => {
+    const multi = { type: ["string", "number", "boolean"] };
+
+    expect(validateSchema(multi, true).valid).toBe(true);
+    expect(validateSchema(multi, null).errors).toEqual([
+      { path: "", message: "expected string or number or boolean, got null" },
+    ]);
+  });
+});
+
+describe("formatErrors", () => {
+  it("lists one error per line, naming the root when there is no path", () => {
+    const { errors } = validateSchema(schema, []);
+
+    expect(formatErrors(errors)).toBe("- (root): expected object, got array");
+    expect(formatErrors(validateSchema(schema, { url: "" }).errors)).toBe(
+      "- url: must be at least 1 characters\n- url: must match pattern ^https?://"
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { MCPServer } from "../src/server";
+
+let dir: string;
+let server: MCPServer;
+let endpoint: string;
+
+// A port nothing listens on right now
+async function freePort(): Promise<number> {
+  const probe = net.createServer();
+  await new Promise<void>((resolve) => probe.listen(0, "127.0.0.1", () => resolve()));
+  const port = (probe.address() as net.AddressInfo).port;
+  await new Promise((resolve) => probe.close(resolve));
+  return port;
+}
+
+function initializeRequest() {
+  return {
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } },
+  };
+}
+
+function post(body: unknown, headers: Record<string, string> = {}) {
+  return fetch(endpoint, {
+    method: "POST",
+    headers: { "content-type": "application/json", accept: "application/json, text/event-stream", ...headers },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+// fetch() won't send a Host header of our choosing
+function statusWithHost(host: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = http.request(endpoint, { method: "POST", headers: { host, "content-type": "application/json" } }, (response) => {
+      response.resume();
+      resolve(response.statusCode!);
+    });
+    request.on("error", reject);
+    request.end(JSON.stringify(initializeRequest()));
+  });
+}
+
+beforeAll(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "server-test-"));
+  const configFile = path.join(dir, "mcp-server.json");
+  fs.writeFileSync(configFile, JSON.stringify({ audit: { enabled: false }, logging: { level: "error" } }));
+
+  const port = await freePort();
+  server = new MCPServer({ configFile, fsPolicy: { roots: [dir] } });
+  await server.start({ http: true, port });
+  endpoint = `http://127.0.0.1:${port}/mcp`;
+});
+
+afterAll(async () => {
+  await server?.stop();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("HTTP transport", () => {
+  it("runs a session from initialize to close", async () => {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const transport = new StreamableHTTPClientTransport(new URL(endpoint));
+    await client.connect(transport);
+    const sessionId = transport.sessionId!;
+    expect(sessionId).toBeTruthy();
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toContain("say_hello");
+
+    const result = await client.callTool({ name: "say_hello", arguments: { name: "Ada" } });
+    expect(result.content).toEqual([{ type: "text", text: "Hello, Ada! This is a greeting from the MCP server." }]);
+
+    await transport.terminateSession();
+    await client.close();
+
+    const afterClose = await post({ jsonrpc: "2.0", id: 2, method: "tools/list" }, { "mcp-session-id": sessionId, "mcp-protocol-version": "2025-06-18" });
+    expect(afterClose.status).toBe(400);
+    expect((await afterClose.json()).error.message).toBe("Bad Request: missing or unknown session ID");
+  });
+
+  it("reports invalid tool arguments as an error result", async () => {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const transport = new StreamableHTTPClientTransport(new URL(endpoint));
+    await client.connect(transport);
+
+    const result = await client.callTool({ name: "say_hello", arguments: { name: 42 } });
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([{ type: "text", text: "Invalid arguments for tool 'say_hello':\n- name: expected string, got integer" }]);
+
+    await transport.terminateSession();
+    await client.close();
+  });
+
+  it("refuses requests that aren't for a known session", async () => {
+    const response = await post({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("refuses other hosts and origins", async () => {
+    expect(await statusWithHost("evil.example")).toBe(403);
+    expect(await statusWithHost("evil.example:80")).toBe(403);
+    expect((await post(initializeRequest(), { origin: "http://evil.example" })).status).toBe(403);
+  });
+
+  it("refuses bodies over the size limit", async () => {
+    const response = await post(JSON.stringify({ ...initializeRequest(), padding: "x".repeat(5 * 1024 * 1024) }));
+
+    expect(response.status).toBe(413);
+  });
+});